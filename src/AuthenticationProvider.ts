@@ -0,0 +1,185 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { OutgoingHttpHeaders } from 'http';
+import { planner } from 'pddl-workspace';
+import { HttpClientOptions, postForm } from './httpUtils';
+import { PlanningServiceError } from './errors';
+
+/** Request being authenticated. The provider adds the credentials to the `headers` or to the `url` query. */
+export interface AuthenticatedRequest {
+    url: URL;
+    headers: OutgoingHttpHeaders;
+}
+
+/**
+ * Supplies the credentials of the requests sent to one planning service.
+ * When the service responds with `401`, the credential is refreshed (if the provider supports it)
+ * and the request is re-sent once.
+ */
+export interface AuthenticationProvider {
+    /**
+     * Adds the credentials to the request.
+     * @param request request url and headers (modified in place)
+     * @param signal cancels obtaining the credential
+     */
+    authenticate(request: AuthenticatedRequest, signal?: AbortSignal): Promise<void>;
+
+    /**
+     * Obtains a new credential after the service rejected the current one.
+     * @param signal cancels obtaining the credential
+     * @returns `true` if the credential was refreshed and the request should be re-sent
+     */
+    refresh?(signal?: AbortSignal): Promise<boolean>;
+}
+
+/** Sends the `Authorization: Bearer` header. */
+export class BearerTokenAuthentication implements AuthenticationProvider {
+
+    private refreshedToken: string | undefined;
+
+    /**
+     * @param getToken supplies the current token; no header is sent, if it returns `undefined`
+     * @param refreshToken obtains a new token after the service rejected the current one
+     */
+    constructor(private readonly getToken: () => string | undefined | Promise<string | undefined>,
+        private readonly refreshToken?: (signal?: AbortSignal) => Promise<string | undefined>) {
+    }
+
+    /**
+     * Adapts the `authentication` of the planner run configuration.
+     * @param authentication token source of the planner run configuration
+     */
+    static fromConfiguration(authentication: planner.Authentication): BearerTokenAuthentication {
+        return new BearerTokenAuthentication(() => authentication.getToken());
+    }
+
+    async authenticate(request: AuthenticatedRequest): Promise<void> {
+        const token = this.refreshedToken ?? await this.getToken();
+        if (token !== undefined) {
+            request.headers['Authorization'] = 'Bearer ' + token;
+        }
+    }
+
+    async refresh(signal?: AbortSignal): Promise<boolean> {
+        if (!this.refreshToken) { return false; }
+        this.refreshedToken = await this.refreshToken(signal);
+        return this.refreshedToken !== undefined;
+    }
+}
+
+/** OAuth2 client credentials grant settings. */
+export interface OAuth2ClientCredentials {
+    /** Token endpoint url */
+    tokenUrl: string;
+    clientId: string;
+    clientSecret: string;
+    /** Requested scope(s) separated by space. */
+    scope?: string;
+    /** Sends the client id and secret in the request body rather than in the `Authorization: Basic` header. */
+    credentialsInBody?: boolean;
+    /** Options of the token endpoint requests e.g. the proxy and TLS `connection` settings. */
+    httpOptions?: HttpClientOptions;
+}
+
+/** Token endpoint response. */
+interface OAuth2TokenResponse {
+    access_token?: string;
+    token_type?: string;
+    /** Token lifetime in seconds. */
+    expires_in?: number;
+}
+
+/** Token is renewed this many milliseconds before it expires. */
+const TOKEN_EXPIRY_LEEWAY = 30 * 1000;
+
+/** Obtains the bearer token using the OAuth2 client credentials grant and renews it before it expires. */
+export class OAuth2ClientCredentialsAuthentication implements AuthenticationProvider {
+
+    private token: { accessToken: string, expiresAt: number } | undefined;
+
+    constructor(private readonly credentials: OAuth2ClientCredentials) {
+    }
+
+    async authenticate(request: AuthenticatedRequest, signal?: AbortSignal): Promise<void> {
+        if (this.token === undefined || Date.now() >= this.token.expiresAt) {
+            await this.requestToken(signal);
+        }
+        request.headers['Authorization'] = 'Bearer ' + this.token?.accessToken;
+    }
+
+    async refresh(signal?: AbortSignal): Promise<boolean> {
+        await this.requestToken(signal);
+        return true;
+    }
+
+    private async requestToken(signal?: AbortSignal): Promise<void> {
+        const form: Record<string, string> = { grant_type: 'client_credentials' };
+        const headers: OutgoingHttpHeaders = {};
+        if (this.credentials.scope) {
+            form.scope = this.credentials.scope;
+        }
+        if (this.credentials.credentialsInBody) {
+            form.client_id = this.credentials.clientId;
+            form.client_secret = this.credentials.clientSecret;
+        } else {
+            headers['Authorization'] = basicCredentials(encodeURIComponent(this.credentials.clientId), encodeURIComponent(this.credentials.clientSecret));
+        }
+
+        this.token = undefined;
+        const response = await postForm<OAuth2TokenResponse>(new URL(this.credentials.tokenUrl), form, {
+            ...this.credentials.httpOptions,
+            isAuthenticated: true,
+            serviceFriendlyName: 'OAuth2 token endpoint',
+            headers: headers,
+            signal: signal,
+        });
+        if (!response.access_token) {
+            throw new PlanningServiceError(`Token endpoint did not return the 'access_token'.`, { url: this.credentials.tokenUrl });
+        }
+        const lifetime = (response.expires_in ?? Number.POSITIVE_INFINITY) * 1000;
+        this.token = { accessToken: response.access_token, expiresAt: Date.now() + Math.max(0, lifetime - TOKEN_EXPIRY_LEEWAY) };
+    }
+}
+
+/** Where the API key is sent. */
+export type ApiKeyPlacement = { header: string } | { queryParameter: string };
+
+/** Sends the API key in a request header (`X-API-Key` by default) or in the url query. */
+export class ApiKeyAuthentication implements AuthenticationProvider {
+
+    /**
+     * @param apiKey API key
+     * @param placement header or query parameter name
+     */
+    constructor(private readonly apiKey: string, private readonly placement: ApiKeyPlacement = { header: 'X-API-Key' }) {
+    }
+
+    async authenticate(request: AuthenticatedRequest): Promise<void> {
+        if ('header' in this.placement) {
+            request.headers[this.placement.header] = this.apiKey;
+        } else {
+            request.url.searchParams.set(this.placement.queryParameter, this.apiKey);
+        }
+    }
+}
+
+/** Sends the `Authorization: Basic` header. */
+export class BasicAuthentication implements AuthenticationProvider {
+
+    constructor(private readonly userName: string, private readonly password: string) {
+    }
+
+    async authenticate(request: AuthenticatedRequest): Promise<void> {
+        request.headers['Authorization'] = basicCredentials(this.userName, this.password);
+    }
+}
+
+function basicCredentials(userName: string, password: string): string {
+    // the `Buffer` is not available in the browser; `btoa` expects one character per (UTF-8) byte
+    const bytes = new TextEncoder().encode(`${userName}:${password}`);
+    return 'Basic ' + btoa(String.fromCharCode(...bytes));
+}
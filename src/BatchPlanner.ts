@@ -0,0 +1,179 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, parser, Plan, planner, ProblemInfo } from 'pddl-workspace';
+import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
+import { PlanningCancelledError, PlanningTimeoutError } from './errors';
+
+/** Outcome of one batch job. */
+export type BatchJobStatus = 'solved' | 'unsolved' | 'failed' | 'timeout' | 'cancelled';
+
+/** Result of planning for one problem of the batch. */
+export interface BatchJobReport {
+    /** Problem name */
+    problem: string;
+    /** Problem file uri */
+    problemUri: string;
+    status: BatchJobStatus;
+    /** Number of plans found */
+    planCount: number;
+    /** Makespan of the best plan */
+    makespan?: number;
+    /** Metric value of the best plan */
+    metric?: number;
+    /** States evaluated until the best plan was found (if reported by the service) */
+    statesEvaluated?: number;
+    /** Time (in milliseconds) the job took */
+    elapsed: number;
+    /** Error message of failed jobs */
+    error?: string;
+}
+
+export interface BatchPlanningOptions {
+    /** Maximum number of planning requests running at the same time. Default is 2. */
+    concurrency?: number;
+    /** Time (in seconds) after which the job is cancelled. By default, the job runs until the service responds. */
+    jobTimeout?: number;
+    /** Plan parser options. Default epsilon is `1e-3`. */
+    planParserOptions?: parser.PddlPlanParserOptions;
+    /** Cancels the jobs in progress and skips the remaining jobs. */
+    signal?: AbortSignal;
+    /** Creates the handler of the output and plans of one job. By default, the output is discarded. */
+    createResponseHandler?: (problem: ProblemInfo) => planner.PlannerResponseHandler;
+    /** Called when a job finishes e.g. to report progress. */
+    onJobFinished?: (report: BatchJobReport) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/** Report of the whole batch. */
+export class BatchPlanningReport {
+
+    constructor(readonly jobs: BatchJobReport[]) {
+    }
+
+    /** Serializes the report as a JSON array. */
+    toJson(): string {
+        return JSON.stringify(this.jobs, null, 2);
+    }
+
+    /** Serializes the report as CSV with a header line. */
+    toCsv(): string {
+        const columns: (keyof BatchJobReport)[] = ['problem', 'problemUri', 'status', 'planCount', 'makespan', 'metric', 'statesEvaluated', 'elapsed', 'error'];
+        const lines = this.jobs.map(job => columns.map(column => toCsvValue(job[column])).join(','));
+        return [columns.join(','), ...lines].join('\n') + '\n';
+    }
+}
+
+function toCsvValue(value: string | number | undefined): string {
+    if (value === undefined) { return ''; }
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Plans for a set of problems of one domain with a limited number of concurrent requests.
+ */
+export class BatchPlanner {
+
+    /**
+     * @param createService creates the planning service client for one job (the clients keep per-request state, so they are not shared)
+     */
+    constructor(private readonly createService: () => PlannerService<ServerRequest, ServerResponse>) {
+    }
+
+    /**
+     * Plans for all the problems.
+     * @param domain domain
+     * @param problems problems
+     * @param options concurrency, timeout etc.
+     * @returns report with one entry per problem (in the order of the `problems`)
+     */
+    async run(domain: DomainInfo, problems: ProblemInfo[], options: BatchPlanningOptions = {}): Promise<BatchPlanningReport> {
+        const reports: BatchJobReport[] = new Array(problems.length);
+        let nextJob = 0;
+
+        const worker = async (): Promise<void> => {
+            while (nextJob < problems.length) {
+                const index = nextJob++;
+                reports[index] = await this.runJob(domain, problems[index], options);
+                options.onJobFinished?.(reports[index]);
+            }
+        };
+
+        const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, problems.length));
+        await Promise.all(Array.from({ length: concurrency }, () => worker()));
+        return new BatchPlanningReport(reports);
+    }
+
+    private async runJob(domain: DomainInfo, problem: ProblemInfo, options: BatchPlanningOptions): Promise<BatchJobReport> {
+        const startedAt = Date.now();
+        const report = (status: BatchJobStatus, plans: Plan[], error?: string): BatchJobReport =>
+            createJobReport(problem, status, plans, Date.now() - startedAt, error);
+
+        if (options.signal?.aborted) {
+            return report('cancelled', []);
+        }
+
+        const abortController = new AbortController();
+        const abort = (): void => abortController.abort();
+        options.signal?.addEventListener('abort', abort, { once: true });
+        let timedOut = false;
+        const timer = options.jobTimeout !== undefined ?
+            setTimeout(() => { timedOut = true; abortController.abort(); }, options.jobTimeout * 1000) :
+            undefined;
+
+        const planParser = new parser.PddlPlannerOutputParser(domain, problem, options.planParserOptions ?? { epsilon: 1e-3 });
+        const handler = options.createResponseHandler?.(problem) ?? new SilentResponseHandler();
+        try {
+            const plans = await this.createService().plan(domain, problem, planParser, handler, { signal: abortController.signal });
+            return report(plans.length > 0 ? 'solved' : 'unsolved', plans);
+        } catch (err: unknown) {
+            const plans = planParser.getPlans();
+            if (err instanceof PlanningCancelledError) {
+                return report(timedOut ? 'timeout' : 'cancelled', plans);
+            }
+            if (err instanceof PlanningTimeoutError) {
+                // e.g. the deadline of polling for the results
+                return report('timeout', plans, err.message);
+            }
+            return report('failed', plans, (err as Error).message ?? String(err));
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', abort);
+        }
+    }
+}
+
+function createJobReport(problem: ProblemInfo, status: BatchJobStatus, plans: Plan[], elapsed: number, error?: string): BatchJobReport {
+    const best = plans.reduce<Plan | undefined>((best, plan) => best === undefined || plan.metric < best.metric ? plan : best, undefined);
+    return {
+        problem: problem.name,
+        problemUri: problem.fileUri.toString(),
+        status,
+        planCount: plans.length,
+        makespan: best?.makespan,
+        metric: best?.metric,
+        statesEvaluated: best?.statesEvaluated,
+        elapsed,
+        error,
+    };
+}
+
+/** Discards the planner output. */
+class SilentResponseHandler implements planner.PlannerResponseHandler {
+    handleOutput(): void {
+        // discarded
+    }
+
+    handlePlan(): void {
+        // plans are returned by the service
+    }
+
+    providePlannerOptions(): string[] {
+        return [];
+    }
+}
@@ -0,0 +1,75 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import type { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+
+/** HTTP request handed over to the `HttpTransport`. */
+export interface HttpTransportRequest {
+    method: string;
+    url: URL;
+    headers: OutgoingHttpHeaders;
+    /** Request body; binary, when compressed (see the `Content-Encoding` header). */
+    body?: string | Uint8Array;
+    /** Aborts the request, when signalled. */
+    signal?: AbortSignal;
+    /** Socket timeout in milliseconds (if supported by the transport). */
+    timeout?: number;
+    /** Response body encoding (if supported by the transport). Default is `utf8`. */
+    encoding?: string;
+}
+
+/** HTTP response read to the end. */
+export interface HttpResponse {
+    statusCode: number;
+    statusMessage?: string;
+    /** Response headers (names in lower case). */
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * Sends the HTTP requests of the planning service clients.
+ * The `NodeHttpTransport` is used by default; web consumers use the `FetchHttpTransport`.
+ */
+export interface HttpTransport {
+    /**
+     * Sends the request and reads the whole response.
+     * @param request request
+     * @returns response with any status code; the transport rejects only if no response was received
+     */
+    send(request: HttpTransportRequest): Promise<HttpResponse>;
+}
+
+/** Sends the requests using the `fetch` API (e.g. in browsers and web extensions). */
+export class FetchHttpTransport implements HttpTransport {
+
+    /**
+     * @param fetchFunction `fetch` implementation; the global `fetch` by default
+     */
+    constructor(private readonly fetchFunction: typeof fetch = (input, init) => fetch(input, init)) {
+    }
+
+    async send(request: HttpTransportRequest): Promise<HttpResponse> {
+        const headers: Record<string, string> = {};
+        Object.entries(request.headers)
+            // the fetch API calculates the content length itself
+            .filter(([name, value]) => value !== undefined && name.toLowerCase() !== 'content-length')
+            .forEach(([name, value]) => headers[name] = Array.isArray(value) ? value.join(', ') : String(value));
+
+        let response: Response;
+        try {
+            response = await this.fetchFunction(request.url.toString(), { method: request.method, headers, body: request.body, signal: request.signal });
+        } catch (err: unknown) {
+            // surface the socket error (e.g. `ECONNRESET`), so it can be retried
+            const cause = (err as { cause?: unknown }).cause;
+            throw cause instanceof Error ? cause : err;
+        }
+
+        const responseHeaders: IncomingHttpHeaders = {};
+        response.headers.forEach((value, name) => responseHeaders[name.toLowerCase()] = value);
+        return { statusCode: response.status, statusMessage: response.statusText, headers: responseHeaders, body: await response.text() };
+    }
+}
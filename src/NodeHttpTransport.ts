@@ -0,0 +1,74 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as http from 'http';
+import * as https from 'https';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { ConnectionSettings, createRequest } from './ConnectionSettings';
+import { HttpResponse, HttpTransport, HttpTransportRequest } from './HttpTransport';
+
+/** Response content encodings decoded by the transport. */
+const ACCEPT_ENCODING = 'gzip, deflate, br';
+
+/**
+ * Sends the requests using the Node.js `http`/`https` modules honouring the proxy and TLS settings.
+ * Compressed responses are accepted (unless the request specifies its own `Accept-Encoding`) and decoded.
+ */
+export class NodeHttpTransport implements HttpTransport {
+
+    /**
+     * @param connection proxy and TLS settings
+     * @param requestOptions additional Node.js request options e.g. the `agent`
+     */
+    constructor(private readonly connection: ConnectionSettings = {}, private readonly requestOptions: https.RequestOptions = {}) {
+    }
+
+    send(request: HttpTransportRequest): Promise<HttpResponse> {
+        const options: https.RequestOptions = {
+            ...this.requestOptions,
+            method: request.method,
+            headers: withAcceptEncoding(request.headers),
+            signal: request.signal,
+            timeout: request.timeout,
+        };
+        return new Promise((resolve, reject) => {
+            const req = createRequest(request.url, options, this.connection, res => {
+                res.on('error', reject);
+                const body = decode(res);
+                body.on('error', reject);
+                body.setEncoding((request.encoding as BufferEncoding) ?? 'utf8');
+                let rawData = '';
+                body.on('data', (chunk) => { rawData += chunk; });
+                body.on('end', () => {
+                    resolve({ statusCode: res.statusCode ?? 0, statusMessage: res.statusMessage, headers: res.headers, body: rawData });
+                });
+            });
+            req.on('error', reject);
+            request.body !== undefined && req.write(request.body);
+            req.end();
+        });
+    }
+}
+
+function withAcceptEncoding(headers: http.OutgoingHttpHeaders): http.OutgoingHttpHeaders {
+    return Object.keys(headers).some(name => name.toLowerCase() === 'accept-encoding') ? headers : { ...headers, 'Accept-Encoding': ACCEPT_ENCODING };
+}
+
+/** Decompresses the response body according to its `Content-Encoding`. */
+function decode(response: http.IncomingMessage): Readable {
+    switch (response.headers['content-encoding']?.toLowerCase()) {
+        case 'gzip':
+        case 'x-gzip':
+            return response.pipe(zlib.createGunzip());
+        case 'deflate':
+            return response.pipe(zlib.createInflate());
+        case 'br':
+            return response.pipe(zlib.createBrotliDecompress());
+        default:
+            return response;
+    }
+}
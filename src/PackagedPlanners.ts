@@ -4,20 +4,30 @@
  */
 'use strict';
 
-import { URL } from 'url';
-import { getJson } from './httpUtils';
+import { getJson, HttpClientOptions } from './httpUtils';
 
 /** See https://github.com/AI-Planning/planning-as-a-service/issues/32 */
 export class PackagedPlanners {
-    constructor(private readonly packageUrl: URL) {
+    constructor(private readonly packageUrl: URL, private readonly httpOptions: HttpClientOptions = {}) {
 
     }
 
     async getManifests(): Promise<PackageManifest[]> {
-        return getJson(this.packageUrl);
+        return getJson(this.packageUrl, this.httpOptions);
     }
 }
 
+/**
+ * Creates url of the package service.
+ * @param packageRootUrl planning-as-a-service root e.g. `https://solver.planning.domains:5001/package`
+ * @param packageName package name e.g. `lama-first`
+ * @param serviceName service name e.g. `solve`
+ */
+export function createPackageServiceUrl(packageRootUrl: URL, packageName: string, serviceName: string): string {
+    const rootPath = packageRootUrl.pathname.endsWith('/') ? packageRootUrl.pathname : packageRootUrl.pathname + '/';
+    return new URL(`${rootPath}${encodeURIComponent(packageName)}/${encodeURIComponent(serviceName)}`, packageRootUrl).toString();
+}
+
 /** Describes returned data structure. */
 export interface PackageManifest {
     description: string | undefined;
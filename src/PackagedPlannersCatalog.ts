@@ -0,0 +1,148 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { CacheValidators, getJsonIfModified, HttpClientOptions } from './httpUtils';
+import { createPackageServiceUrl, PackageManifest } from './PackagedPlanners';
+
+export interface PackagedPlannersCatalogOptions {
+    /** Options of the manifest requests e.g. the authentication provider. */
+    httpOptions?: HttpClientOptions;
+    /** File persisting the manifests between sessions (Node.js only). */
+    cacheFile?: string;
+    /** Time (in seconds) the cached manifests are used without revalidation. Default is 0 (always revalidate). */
+    maxAge?: number;
+}
+
+/** Content of the cache file. */
+interface CatalogCacheEntry extends CacheValidators {
+    /** Package list url */
+    url: string;
+    /** Time the manifests were last fetched or revalidated (milliseconds since epoch). */
+    validatedAt: number;
+    manifests: PackageManifest[];
+}
+
+/**
+ * Planning-as-a-service package list cached in memory (and optionally on disk).
+ * The cached list is revalidated using the `ETag`/`Last-Modified` response headers.
+ */
+export class PackagedPlannersCatalog {
+
+    private cache: CatalogCacheEntry | undefined;
+    /** Request in flight; `forced` if it revalidates regardless the `maxAge`. */
+    private fetching: { manifests: Promise<PackageManifest[]>, forced: boolean } | undefined;
+
+    /**
+     * @param packageUrl planning-as-a-service package list url e.g. `https://solver.planning.domains:5001/package`
+     * @param options cache options
+     */
+    constructor(private readonly packageUrl: URL, private readonly options: PackagedPlannersCatalogOptions = {}) {
+    }
+
+    /**
+     * Gets all package manifests, from the cache if still valid.
+     * @param forceRevalidate revalidates the cache regardless the `maxAge`
+     */
+    async getManifests(forceRevalidate = false): Promise<PackageManifest[]> {
+        // concurrent callers share one request; the forced revalidation is chained after the request in flight, unless that one is forced too
+        if (this.fetching === undefined || (forceRevalidate && !this.fetching.forced)) {
+            const previous = this.fetching?.manifests.catch(() => undefined) ?? Promise.resolve(undefined);
+            const fetching = {
+                manifests: previous.then(() => this.fetchManifests(forceRevalidate)).finally(() => {
+                    if (this.fetching === fetching) { this.fetching = undefined; }
+                }),
+                forced: forceRevalidate,
+            };
+            this.fetching = fetching;
+        }
+        return await this.fetching.manifests;
+    }
+
+    /** Drops the cached manifests (incl. the cache file). */
+    async invalidate(): Promise<void> {
+        this.cache = undefined;
+        if (this.options.cacheFile) {
+            const fs = await import('fs');
+            await fs.promises.rm(this.options.cacheFile, { force: true });
+        }
+    }
+
+    /** Packages that can be run by the service. */
+    async getRunnable(): Promise<PackageManifest[]> {
+        return (await this.getManifests()).filter(manifest => manifest.runnable);
+    }
+
+    /**
+     * Runnable packages exposing the service.
+     * @param serviceName service name e.g. `solve` or `topk`
+     */
+    async findByService(serviceName: string): Promise<PackageManifest[]> {
+        return (await this.getRunnable()).filter(manifest => manifest.endpoint?.services?.[serviceName] !== undefined);
+    }
+
+    /**
+     * Runnable packages having a service with the argument.
+     * @param argumentName argument name e.g. `k`
+     */
+    async findByArgument(argumentName: string): Promise<PackageManifest[]> {
+        return (await this.getRunnable()).filter(manifest => Object.values(manifest.endpoint?.services ?? {})
+            .some(service => service.args?.some(arg => arg.name === argumentName)));
+    }
+
+    /**
+     * Finds the package.
+     * @param packageName package name e.g. `lama-first`
+     */
+    async getPackage(packageName: string): Promise<PackageManifest | undefined> {
+        return (await this.getManifests()).find(manifest => manifest.package_name === packageName);
+    }
+
+    /**
+     * Service url to submit the planning requests to.
+     * @param packageName package name e.g. `lama-first`
+     * @param serviceName service name e.g. `solve`
+     */
+    createServiceUrl(packageName: string, serviceName = 'solve'): string {
+        return createPackageServiceUrl(this.packageUrl, packageName, serviceName);
+    }
+
+    private async fetchManifests(forceRevalidate: boolean): Promise<PackageManifest[]> {
+        const cached = this.cache ?? await this.readCacheFile();
+        const maxAge = (this.options.maxAge ?? 0) * 1000;
+        if (cached && !forceRevalidate && Date.now() - cached.validatedAt < maxAge) {
+            this.cache = cached;
+            return cached.manifests;
+        }
+
+        const response = await getJsonIfModified<PackageManifest[]>(this.packageUrl, cached ?? {}, this.options.httpOptions);
+        const manifests = response.notModified && cached ? cached.manifests : response.body ?? [];
+        this.cache = { url: this.packageUrl.toString(), etag: response.etag, lastModified: response.lastModified, validatedAt: Date.now(), manifests };
+        await this.writeCacheFile(this.cache);
+        return manifests;
+    }
+
+    private async readCacheFile(): Promise<CatalogCacheEntry | undefined> {
+        if (!this.options.cacheFile) { return undefined; }
+        try {
+            const fs = await import('fs');
+            const entry = JSON.parse(await fs.promises.readFile(this.options.cacheFile, { encoding: 'utf8' })) as CatalogCacheEntry;
+            return entry.url === this.packageUrl.toString() && Array.isArray(entry.manifests) ? entry : undefined;
+        } catch {
+            // missing or corrupt cache file
+            return undefined;
+        }
+    }
+
+    private async writeCacheFile(entry: CatalogCacheEntry): Promise<void> {
+        if (!this.options.cacheFile) { return; }
+        try {
+            const fs = await import('fs');
+            await fs.promises.writeFile(this.options.cacheFile, JSON.stringify(entry), { encoding: 'utf8' });
+        } catch (err: unknown) {
+            console.warn(`Failed to write the package manifest cache ${this.options.cacheFile}: ${err}`);
+        }
+    }
+}
@@ -0,0 +1,147 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as nunjucks from 'nunjucks';
+import { DomainInfo, parser, ProblemInfo } from 'pddl-workspace';
+import { TemplateRenderingError } from './errors';
+
+export interface PddlTemplateOptions {
+    /** Template data context. The templates refer to it as `data` e.g. `{% for truck in data.trucks %}`. */
+    data: unknown;
+    /** Renders the domain as well. By default, only the problem is rendered. */
+    renderDomain?: boolean;
+    /** Keeps the whitespace in front of the `{% %}` blocks. Default is `false`. */
+    preserveWhitespace?: boolean;
+}
+
+/** Rendered PDDL sent to the planning service. */
+export interface RenderedTemplates {
+    /** Rendered domain text (if the domain was rendered) */
+    domain?: string;
+    /** Rendered problem text */
+    problem: string;
+}
+
+/**
+ * Renders the Nunjucks-templated problem (and optionally the domain) before it is sent to the planning service.
+ * The template environment matches the `NunjucksPreProcessor` of the pddl-workspace (incl. the `map` and `setAttribute` filters).
+ */
+export class PddlTemplateRenderer {
+
+    private readonly environment: nunjucks.Environment;
+
+    constructor(readonly options: PddlTemplateOptions) {
+        this.environment = new nunjucks.Environment([], {
+            autoescape: false, throwOnUndefined: true, trimBlocks: false, lstripBlocks: !options.preserveWhitespace
+        });
+        this.environment.addFilter('map', (array: Record<string, unknown>[], attribute: string) => array.map(item => item[attribute]));
+        this.environment.addFilter('setAttribute', (dictionary: Record<string, unknown>, key: string, value: unknown) => {
+            dictionary[key] = value;
+            return dictionary;
+        });
+    }
+
+    /**
+     * Renders the template text.
+     * @param template template text
+     * @param fileName template file name used in the error messages
+     * @returns rendered text
+     * @throws TemplateRenderingError with the line and column (if reported by the template engine)
+     */
+    render(template: string, fileName = 'template'): string {
+        try {
+            return new nunjucks.Template(template, this.environment, fileName, true).render({ data: this.options.data });
+        } catch (err: unknown) {
+            throw toTemplateRenderingError(err as Error, fileName);
+        }
+    }
+
+    /**
+     * Renders the problem (and the domain, if configured).
+     * @param domain domain (template)
+     * @param problem problem template
+     * @returns rendered domain and problem and their text
+     * @throws TemplateRenderingError if the template fails, or the rendered text is not valid PDDL
+     */
+    async renderDomainAndProblem(domain: DomainInfo, problem: ProblemInfo): Promise<[DomainInfo, ProblemInfo, RenderedTemplates]> {
+        const rendered: RenderedTemplates = { problem: this.render(problem.getText(), problem.fileUri.path) };
+
+        let renderedDomain = domain;
+        if (this.options.renderDomain) {
+            rendered.domain = this.render(domain.getText(), domain.fileUri.path);
+            const parsedDomain = parser.PddlDomainParser.parseText(rendered.domain, domain.fileUri);
+            if (!parsedDomain) {
+                throw new TemplateRenderingError(`Rendered ${domain.fileUri.path} is not a PDDL domain.`, domain.fileUri.path);
+            }
+            renderedDomain = parsedDomain;
+        }
+
+        const renderedProblem = await parser.PddlProblemParser.parseText(rendered.problem, problem.fileUri);
+        if (!renderedProblem) {
+            throw new TemplateRenderingError(`Rendered ${problem.fileUri.path} is not a PDDL problem.`, problem.fileUri.path);
+        }
+        return [renderedDomain, renderedProblem, rendered];
+    }
+
+    /**
+     * Parses CSV text (with a header line) to rows usable as the template `data`.
+     * Fields may be quoted by `"`; quotes inside quoted fields are doubled.
+     * @param text CSV text
+     * @returns one object per row keyed by the header names
+     */
+    static parseCsv(text: string): Record<string, string>[] {
+        const [header, ...rows] = parseCsvRecords(text);
+        return rows.map(row => Object.fromEntries((header ?? []).map((name, index) => [name, row[index] ?? ''])));
+    }
+}
+
+function toTemplateRenderingError(error: Error, fileName: string): TemplateRenderingError {
+    // e.g. '(problem.pddl) [Line 2, Column 16]\n  unexpected token: }}'
+    const match = /^\(.*?\)(?:\s+\[Line (\d+), Column (\d+)\])?\s*([\s\S]*)$/.exec(error.message);
+    const reason = match?.[3]?.trim() || error.message;
+    const line = match?.[1] !== undefined ? parseInt(match[1]) : undefined;
+    const column = match?.[2] !== undefined ? parseInt(match[2]) : undefined;
+    const location = line !== undefined ? ` at line ${line}, column ${column}` : '';
+    return new TemplateRenderingError(`Template ${fileName}${location}: ${reason}`, fileName, line, column);
+}
+
+function parseCsvRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            char === '\r' && text[index + 1] === '\n' && index++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field.length > 0 || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(r => r.length > 1 || r[0] !== '');
+}
@@ -0,0 +1,204 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { parser, Plan } from 'pddl-workspace';
+import { convertJsonPlanSteps, JsonPlanStep } from './PlanDecoderRegistry';
+
+export interface PlanCacheOptions {
+    /** Directory persisting the cached plans between sessions (one file per entry). By default, the plans are only cached in memory. */
+    directory?: string;
+    /** Time (in seconds) the cached plans are served. By default, the entries do not expire. */
+    maxAge?: number;
+}
+
+/** Plan in the serializable form. */
+export interface CachedPlan {
+    steps: JsonPlanStep[];
+    makespan: number;
+    metric: number;
+    statesEvaluated?: number;
+}
+
+/** Plans found by one planning request. */
+export interface PlanCacheEntry {
+    /** Cache key (see `PlanCache.createKey`) */
+    key: string;
+    /** Url of the service that found the plans */
+    serviceUrl: string;
+    /** Time (milliseconds since epoch) the plans were cached. */
+    createdAt: number;
+    plans: CachedPlan[];
+}
+
+/**
+ * Plans cached by the hash of the planning request, so repeated requests do not call the planning service.
+ * Entries are held in memory (and optionally on disk) until they expire or are invalidated.
+ */
+export class PlanCache {
+
+    private readonly entries = new Map<string, PlanCacheEntry>();
+
+    constructor(private readonly options: PlanCacheOptions = {}) {
+    }
+
+    /**
+     * Creates the cache key. The PDDL is normalized (comments and whitespace differences do not matter; PDDL is case-insensitive).
+     * @param domainText domain text
+     * @param problemText problem text
+     * @param serviceUrl service url
+     * @param configuration configuration affecting the plans (functions and the `authentication` are ignored)
+     * @returns SHA-256 hash (hex)
+     */
+    static createKey(domainText: string, problemText: string, serviceUrl: string, configuration: unknown): string {
+        return createHash('sha256')
+            .update(normalizePddl(domainText)).update('\0')
+            .update(normalizePddl(problemText)).update('\0')
+            .update(serviceUrl).update('\0')
+            .update(stableStringify(configuration) ?? '')
+            .digest('hex');
+    }
+
+    /**
+     * Creates the cache key (see the static `createKey`). The planning services create the keys via their `planCache`,
+     * so they do not depend on the Node.js `crypto` module.
+     */
+    createKey(domainText: string, problemText: string, serviceUrl: string, configuration: unknown): string {
+        return PlanCache.createKey(domainText, problemText, serviceUrl, configuration);
+    }
+
+    /**
+     * Gets the cached plans, unless they expired.
+     * @param key cache key
+     */
+    async get(key: string): Promise<PlanCacheEntry | undefined> {
+        const entry = this.entries.get(key) ?? await this.readEntryFile(key);
+        if (entry === undefined) { return undefined; }
+        if (this.isExpired(entry)) {
+            await this.invalidate(key);
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    /**
+     * Caches the plans.
+     * @param key cache key
+     * @param serviceUrl url of the service that found the plans
+     * @param plans plans
+     */
+    async set(key: string, serviceUrl: string, plans: Plan[]): Promise<PlanCacheEntry> {
+        const entry: PlanCacheEntry = { key, serviceUrl, createdAt: Date.now(), plans: plans.map(toCachedPlan) };
+        this.entries.set(key, entry);
+        await this.writeEntryFile(entry);
+        return entry;
+    }
+
+    /**
+     * Drops the cached plans (incl. the cache files).
+     * @param key cache key; all entries are dropped, when not specified
+     */
+    async invalidate(key?: string): Promise<void> {
+        if (key !== undefined) {
+            this.entries.delete(key);
+            this.options.directory && await fs.promises.rm(this.getEntryFile(key), { force: true });
+        } else {
+            this.entries.clear();
+            if (this.options.directory) {
+                const files = await fs.promises.readdir(this.options.directory).catch(() => [] as string[]);
+                await Promise.all(files.filter(file => /^[0-9a-f]{64}\.json$/.test(file))
+                    .map(file => fs.promises.rm(path.join(this.options.directory!, file), { force: true })));
+            }
+        }
+    }
+
+    /**
+     * Passes the cached plans to the plan parser.
+     * @param entry cached plans
+     * @param planParser plan parser
+     * @returns plans re-created from the cache
+     */
+    restorePlans(entry: PlanCacheEntry, planParser: parser.PddlPlannerOutputParser): Plan[] {
+        const restored: Plan[] = [];
+        for (const cachedPlan of entry.plans) {
+            const planCount = planParser.getPlans().length;
+            convertJsonPlanSteps(cachedPlan.steps, planParser);
+            const plan = planParser.getPlans()[planCount];
+            if (plan) {
+                plan.metric = cachedPlan.metric;
+                plan.statesEvaluated = cachedPlan.statesEvaluated;
+                restored.push(plan);
+            }
+        }
+        return restored;
+    }
+
+    private isExpired(entry: PlanCacheEntry): boolean {
+        return this.options.maxAge !== undefined && Date.now() - entry.createdAt >= this.options.maxAge * 1000;
+    }
+
+    private getEntryFile(key: string): string {
+        return path.join(this.options.directory!, `${key}.json`);
+    }
+
+    private async readEntryFile(key: string): Promise<PlanCacheEntry | undefined> {
+        if (!this.options.directory) { return undefined; }
+        try {
+            const entry = JSON.parse(await fs.promises.readFile(this.getEntryFile(key), { encoding: 'utf8' })) as PlanCacheEntry;
+            return entry.key === key && Array.isArray(entry.plans) ? entry : undefined;
+        } catch {
+            // missing or corrupt cache file
+            return undefined;
+        }
+    }
+
+    private async writeEntryFile(entry: PlanCacheEntry): Promise<void> {
+        if (!this.options.directory) { return; }
+        try {
+            await fs.promises.mkdir(this.options.directory, { recursive: true });
+            await fs.promises.writeFile(this.getEntryFile(entry.key), JSON.stringify(entry), { encoding: 'utf8' });
+        } catch (err: unknown) {
+            console.warn(`Failed to write the plan cache file ${this.getEntryFile(entry.key)}: ${err}`);
+        }
+    }
+}
+
+function toCachedPlan(plan: Plan): CachedPlan {
+    return {
+        steps: plan.steps.map(step => ({
+            name: step.getFullActionName(),
+            time: step.getStartTime(),
+            duration: step.isDurative ? step.getDuration() : undefined,
+        })),
+        makespan: plan.makespan,
+        metric: plan.metric,
+        statesEvaluated: plan.statesEvaluated,
+    };
+}
+
+/** Drops the comments, unifies the whitespace and the letter case. */
+function normalizePddl(pddl: string): string {
+    return pddl
+        .replace(/;[^\n]*/g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([()])\s*/g, '$1')
+        .trim()
+        .toLowerCase();
+}
+
+/** JSON with the object keys sorted, so the key does not depend on the property order. */
+function stableStringify(value: unknown): string | undefined {
+    return JSON.stringify(value, (key, nested) => {
+        if (key === 'authentication') { return undefined; }
+        if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+            return Object.fromEntries(Object.keys(nested).sort().map(name => [name, nested[name]]));
+        }
+        return nested;
+    });
+}
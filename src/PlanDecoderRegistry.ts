@@ -0,0 +1,214 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { parser, PlanStep } from 'pddl-workspace';
+import { UnsupportedPlanFormatError } from './errors';
+
+/** Decodes plans of one format into the plan parser. */
+export interface PlanDecoder {
+    /** Format name e.g. `JSON` (matched case-insensitively). */
+    readonly format: string;
+
+    /**
+     * Recognizes the content, when the service does not declare the format.
+     * @param content plan as returned by the service (text or parsed JSON)
+     * @returns `true` if the content is in this format
+     */
+    sniff?(content: unknown): boolean;
+
+    /**
+     * Passes one plan to the plan parser and finishes the plan.
+     * @param content plan as returned by the service (text or parsed JSON)
+     * @param planParser plan parser
+     */
+    decode(content: unknown, planParser: parser.PddlPlannerOutputParser): Promise<void> | void;
+}
+
+/** Plan step in the JSON step array. */
+export interface JsonPlanStep {
+    /** Action name with arguments e.g. `(move a b)` */
+    name: string;
+    time?: number;
+    duration?: number;
+}
+
+/**
+ * Decoders of the plan formats returned by the planning services.
+ * Decoders are looked up by the declared format name, or by sniffing the content (the most recently registered decoder is asked first).
+ */
+export class PlanDecoderRegistry {
+
+    private static defaultRegistry: PlanDecoderRegistry | undefined;
+    private readonly decoders: PlanDecoder[] = [];
+
+    /** Registry shared by all services (unless the service is given its own registry). */
+    static get default(): PlanDecoderRegistry {
+        return PlanDecoderRegistry.defaultRegistry ??= PlanDecoderRegistry.createDefault();
+    }
+
+    /** Creates registry with the built-in decoders. */
+    static createDefault(): PlanDecoderRegistry {
+        return new PlanDecoderRegistry()
+            .register(PDDL_PLAN_DECODER)
+            .register(TASKS_PLAN_DECODER)
+            .register(XPLAN_DECODER)
+            .register(JSON_PLAN_DECODER)
+            .register(SOLVER_PLANNING_DOMAINS_PLAN_DECODER);
+    }
+
+    /**
+     * Registers the decoder. Decoder of the same format is replaced.
+     * @param decoder plan decoder
+     */
+    register(decoder: PlanDecoder): PlanDecoderRegistry {
+        this.unregister(decoder.format);
+        this.decoders.push(decoder);
+        return this;
+    }
+
+    /**
+     * Removes the decoder.
+     * @param format format name
+     */
+    unregister(format: string): void {
+        const index = this.decoders.findIndex(decoder => sameFormat(decoder.format, format));
+        index > -1 && this.decoders.splice(index, 1);
+    }
+
+    /** Registered format names. */
+    get formats(): string[] {
+        return this.decoders.map(decoder => decoder.format);
+    }
+
+    /**
+     * Finds the decoder by the format name.
+     * @param format format name
+     */
+    get(format: string): PlanDecoder | undefined {
+        return this.decoders.find(decoder => sameFormat(decoder.format, format));
+    }
+
+    /**
+     * Finds the decoder recognizing the content.
+     * @param content plan as returned by the service
+     */
+    sniff(content: unknown): PlanDecoder | undefined {
+        return [...this.decoders].reverse().find(decoder => decoder.sniff?.(content));
+    }
+
+    /**
+     * Decodes one plan into the plan parser.
+     * @param content plan as returned by the service
+     * @param planParser plan parser
+     * @param format declared format; when missing, the format is sniffed from the content
+     * @throws UnsupportedPlanFormatError if no decoder matches
+     */
+    async decode(content: unknown, planParser: parser.PddlPlannerOutputParser, format?: string): Promise<void> {
+        const decoder = format !== undefined ? this.get(format) : this.sniff(content);
+        if (!decoder) {
+            throw new UnsupportedPlanFormatError(format !== undefined ? 'Unsupported plan format: ' + format : 'Unrecognized plan format.', format);
+        }
+        await decoder.decode(content, planParser);
+    }
+}
+
+function sameFormat(format1: string, format2: string): boolean {
+    return format1.toLowerCase() === format2.toLowerCase();
+}
+
+/**
+ * Passes the JSON plan steps to the plan parser and finishes the plan.
+ * Steps without the `time` are spaced by the epsilon; steps without the `duration` are instantaneous.
+ * @param planSteps plan steps
+ * @param planParser plan parser
+ */
+export function convertJsonPlanSteps(planSteps: JsonPlanStep[], planParser: parser.PddlPlannerOutputParser): void {
+    for (let index = 0; index < planSteps.length; index++) {
+        const planStep = planSteps[index];
+        const fullActionName = planStep.name.replace('(', '').replace(')', '');
+        const time = planStep.time ?? (index + 1) * planParser.options.epsilon;
+        let duration = planStep.duration;
+        const isDurative = duration !== undefined && duration !== null;
+        duration = duration ?? planParser.options.epsilon;
+        const planStepObj = new PlanStep(time, fullActionName, isDurative, duration, index);
+        planParser.appendStep(planStepObj);
+    }
+    planParser.onPlanFinished();
+}
+
+function parseIfText(content: unknown): unknown {
+    if (typeof content !== 'string') { return content; }
+    try {
+        return JSON.parse(content);
+    } catch {
+        return undefined;
+    }
+}
+
+function isStepArray(content: unknown, ...requiredKeys: string[]): content is JsonPlanStep[] {
+    return Array.isArray(content) && content.every(step => typeof step === 'object' && step !== null &&
+        requiredKeys.every(key => typeof step[key] === 'string'));
+}
+
+function asText(content: unknown, format: string): string {
+    if (typeof content !== 'string') {
+        throw new UnsupportedPlanFormatError(`Plan in the ${format} format is expected as text.`, format);
+    }
+    return content;
+}
+
+/** IPC plain text plan e.g. `0.001: (move a b) [1.000]` */
+const PDDL_PLAN_DECODER: PlanDecoder = {
+    format: 'PDDL',
+    // any text is attempted as the last resort
+    sniff: content => typeof content === 'string',
+    decode: (content, planParser) => {
+        planParser.appendBuffer(asText(content, 'PDDL'));
+        planParser.onPlanFinished();
+    },
+};
+
+/** Task list e.g. `0: (move a b) [1]` */
+const TASKS_PLAN_DECODER: PlanDecoder = {
+    format: 'tasks',
+    decode: (content, planParser) => {
+        planParser.appendBuffer(asText(content, 'tasks'));
+        planParser.onPlanFinished();
+    },
+};
+
+const XPLAN_DECODER: PlanDecoder = {
+    format: 'xplan',
+    sniff: content => typeof content === 'string' && /^\s*(<\?xml[^>]*>\s*)?<plan\b/i.test(content),
+    decode: async (content, planParser) => {
+        await planParser.appendXplan(asText(content, 'xplan')); // must await the underlying async xml parsing
+    },
+};
+
+/** Array of `{ name, time?, duration? }` steps (as text or parsed) */
+const JSON_PLAN_DECODER: PlanDecoder = {
+    format: 'JSON',
+    sniff: content => isStepArray(parseIfText(content), 'name'),
+    decode: (content, planParser) => {
+        const planSteps = parseIfText(content);
+        if (!isStepArray(planSteps, 'name')) {
+            throw new UnsupportedPlanFormatError('Plan is not an array of JSON plan steps.', 'JSON');
+        }
+        convertJsonPlanSteps(planSteps, planParser);
+    },
+};
+
+/** Array of `{ name, action }` objects returned by solver.planning.domains, where `action` is the grounded action definition. */
+const SOLVER_PLANNING_DOMAINS_PLAN_DECODER: PlanDecoder = {
+    format: 'solver.planning.domains',
+    sniff: content => Array.isArray(content) && content.length > 0 && isStepArray(content, 'name', 'action'),
+    decode: (content, planParser) => {
+        if (!isStepArray(content, 'name')) {
+            throw new UnsupportedPlanFormatError('Plan is not an array of solver.planning.domains actions.', 'solver.planning.domains');
+        }
+        convertJsonPlanSteps(content, planParser);
+    },
+};
@@ -0,0 +1,104 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, Plan, ProblemInfo } from 'pddl-workspace';
+import { HttpClientOptions, postJson } from './httpUtils';
+import { PlanningServiceError } from './errors';
+
+/** Precondition that does not hold, when the action is applied. */
+export interface UnsatisfiedPrecondition {
+    /** Index of the plan step (zero-based) */
+    stepIndex?: number;
+    /** Action name with arguments e.g. `(move a b)` */
+    action?: string;
+    /** Condition that does not hold e.g. `(at a)` */
+    condition: string;
+}
+
+/** Plan validation outcome. */
+export interface PlanValidationResult {
+    valid: boolean;
+    /** Index of the first plan step (zero-based) that could not be applied */
+    failingStepIndex?: number;
+    unsatisfiedPreconditions: UnsatisfiedPrecondition[];
+    /** Goals that do not hold at the end of the plan */
+    unsatisfiedGoals: string[];
+    /** Plan metric value (or cost) calculated by the validator */
+    metric?: number;
+    /** Validator report */
+    output?: string;
+}
+
+/** Validation request body. */
+interface ValidationRequest {
+    domain: string;
+    problem: string;
+    plan: string;
+}
+
+/** Validation response body. The `cost` is accepted in place of the `metric`. */
+interface ValidationResponse {
+    valid?: boolean;
+    error?: string;
+    failingStep?: number;
+    unsatisfiedPreconditions?: (UnsatisfiedPrecondition | string)[];
+    unsatisfiedGoals?: string[];
+    metric?: number;
+    cost?: number;
+    output?: string;
+}
+
+/** Wraps the `/validate` plan validation web service interface (e.g. VAL running as a service). */
+export class PlanValidationService {
+
+    /** Options applied to all HTTP requests sent to this service e.g. the authentication provider. */
+    httpOptions: HttpClientOptions = {};
+
+    /**
+     * @param validatorUrl validation service url e.g. `http://localhost:8080/validate`
+     */
+    constructor(private readonly validatorUrl: string) {
+    }
+
+    /**
+     * Sends the plan to the validation service.
+     * @param domain domain
+     * @param problem problem
+     * @param plan plan object, or plan text in the IPC format e.g. `0.001: (a) [1.000]`
+     * @param signal cancels the request
+     * @returns validation result
+     * @throws PlanningServiceError if the service cannot validate the plan
+     */
+    async validate(domain: DomainInfo, problem: ProblemInfo, plan: Plan | string, signal?: AbortSignal): Promise<PlanValidationResult> {
+        const requestBody: ValidationRequest = {
+            domain: domain.getText(),
+            problem: problem.getText(),
+            plan: typeof plan === 'string' ? plan : plan.getText(),
+        };
+
+        const response = await postJson<ValidationResponse>(new URL(this.validatorUrl), requestBody as never, {
+            ...this.httpOptions,
+            isAuthenticated: this.httpOptions.authentication !== undefined,
+            serviceFriendlyName: 'PDDL Plan Validation Service',
+            json: true,
+            signal: signal,
+        });
+
+        if (typeof response.valid !== 'boolean') {
+            throw new PlanningServiceError(response.error ?? `Validation service did not return the 'valid' element.`, { url: this.validatorUrl });
+        }
+
+        return {
+            valid: response.valid,
+            failingStepIndex: response.failingStep,
+            unsatisfiedPreconditions: (response.unsatisfiedPreconditions ?? [])
+                .map(precondition => typeof precondition === 'string' ? { condition: precondition } : precondition),
+            unsatisfiedGoals: response.unsatisfiedGoals ?? [],
+            metric: response.metric ?? response.cost,
+            output: response.output,
+        };
+    }
+}
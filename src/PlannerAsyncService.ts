@@ -5,42 +5,90 @@
 'use strict';
 
 import { Plan, ProblemInfo, DomainInfo, parser, planner } from 'pddl-workspace';
-import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
+import { PlannerService, PlannerServiceKind, PlanningRequestOptions, ServerRequest, ServerResponse } from './PlannerService';
+import { deleteResource, getJson } from './httpUtils';
+import { PollingPolicy, PollingSchedule } from './PollingPolicy';
+import { InvalidDurationError, PlannerFailedError, PlanningServiceError, PlanningTimeoutError } from './errors';
+import { Duration, toSeconds } from './durationUtils';
+import type { SearchDebuggerCallback, SearchDebuggerListener, SearchDebuggerReceiver } from './SearchDebuggerReceiver';
 
 const HOUR = "HOUR";
 const DEFAULT_PLAN_TIME_UNIT_HOUR = HOUR;
+/** Statuses, in which the planner may still produce (better) plans. */
+const IN_PROGRESS_STATUSES: AsyncServerResponseStatus[] = ["NOT_INITIALIZED", "INITIATING", "SEARCHING_INITIAL_PLAN", "SEARCHING_BETTER_PLAN"];
 
 /** Wraps the `/request` planning web service interface. */
 export class PlannerAsyncService extends PlannerService<AsyncServerRequest, AsyncServerResponse> {
 
     public static readonly DEFAULT_TIMEOUT = 60;
+    public static readonly DEFAULT_POLLING_INTERVAL = 1000;
+    /** Time (as a factor of the `timeout`) the service is given to report the stopped job, before the polling gives up. */
+    private static readonly POLLING_DEADLINE_ALLOWANCE = 1.1;
     private timeout = PlannerAsyncService.DEFAULT_TIMEOUT; //this default is overridden by info from the configuration!
-    private asyncMode = false;
     private planTimeScale = 1;
     private lastPlanPrinted = -1;
+    /** Number of plans from the `plans` array already passed to the plan parser. */
+    private plansParsed = 0;
+    /** Length of the cumulative `output` already passed to the response handler. */
+    private outputPrinted = 0;
+    /**
+     * Receives the search debugger events, when the `searchDebuggerEnabled`.
+     * The callback receiver is then started on the `searchDebuggerPort` (or on a free port) for each planning request.
+     * Without the listener, the callbacks are sent to the externally managed server on the `searchDebuggerPort`.
+     */
+    searchDebuggerListener: SearchDebuggerListener | undefined;
+    private searchDebuggerReceiver: SearchDebuggerReceiver | undefined;
 
     constructor(plannerUrl: string, private asyncPlannerConfiguration: AsyncServiceConfiguration, providerConfiguration: planner.ProviderConfiguration) {
         super(plannerUrl, asyncPlannerConfiguration, providerConfiguration);
     }
 
+    get serviceKind(): PlannerServiceKind {
+        return PlannerServiceKind.Async;
+    }
+
     getTimeout(): number {
         return this.timeout;
     }
 
+    /** `true` if the job is submitted with `?async=true` and then polled until it stops. */
+    get asyncMode(): boolean {
+        return this.asyncPlannerConfiguration.asyncMode ?? false;
+    }
+
     createUrl(): string {
         return this.plannerPath + '?async=' + this.asyncMode;
     }
 
+    /**
+     * Url of the asynchronously running job.
+     * @param jobId job identifier returned by the service upon submission
+     */
+    createJobUrl(jobId: string): string {
+        return `${this.plannerPath}/${encodeURIComponent(jobId)}`;
+    }
+
+    async plan(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler,
+        options?: PlanningRequestOptions): Promise<Plan[]> {
+        try {
+            return await super.plan(domainFileInfo, problemFileInfo, planParser, parent, options);
+        } finally {
+            await this.stopSearchDebugger();
+        }
+    }
+
     async createRequestBody(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo): Promise<AsyncServerRequest | null> {
         const configuration = this.asyncPlannerConfiguration;
         if (!configuration) { return null; }
 
-        configuration.planFormat = configuration.planFormat ?? 'JSON';
         if (configuration.timeout !== undefined) {
-            this.timeout = configuration.timeout;
+            this.timeout = toSeconds(configuration.timeout, 'timeout');
         }
 
         this.planTimeScale = PlannerAsyncService.toPlanTimeScale(configuration.planTimeUnit ?? DEFAULT_PLAN_TIME_UNIT_HOUR);
+        this.lastPlanPrinted = -1;
+        this.plansParsed = 0;
+        this.outputPrinted = 0;
 
         let body: AsyncServerRequest = {
             domain: {
@@ -53,7 +101,10 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
                 format: 'PDDL',
                 content: problemFileInfo.getText()
             },
-            configuration: configuration
+            // the service expects the timeout in seconds
+            configuration: {
+                ...configuration, planFormat: configuration.planFormat ?? 'JSON', timeout: configuration.timeout !== undefined ? this.timeout : undefined
+            }
         };
 
         if (this.asyncPlannerConfiguration.searchDebuggerEnabled) {
@@ -61,7 +112,9 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
                 if (!this.plannerPath.match(/http:\/\/(localhost|127\.0\.0\.1)[:\/]/)) {
                     throw new Error(`Search debugger HTTP Callback is only supported for servers running on localhost.`);
                 }
-                if (this.asyncPlannerConfiguration.searchDebuggerPort) {
+                if (this.searchDebuggerListener) {
+                    body.callbacks = await this.startSearchDebugger(this.searchDebuggerListener, this.asyncPlannerConfiguration.searchDebuggerPort);
+                } else if (this.asyncPlannerConfiguration.searchDebuggerPort) {
                     body = Object.assign(body,
                         {
                             'callbacks': [
@@ -79,7 +132,28 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
         return body;
     }
 
-    static toPlanTimeScale(planTimeUnit: PlanTimeUnit): number {
+    private async startSearchDebugger(listener: SearchDebuggerListener, port: number | undefined): Promise<SearchDebuggerCallback[]> {
+        await this.stopSearchDebugger();
+        // the receiver is a Node.js http server
+        const { SearchDebuggerReceiver } = await import('./SearchDebuggerReceiver');
+        const receiver = this.searchDebuggerReceiver = new SearchDebuggerReceiver(listener);
+        await receiver.start(port);
+        return receiver.createCallbacks();
+    }
+
+    private async stopSearchDebugger(): Promise<void> {
+        const receiver = this.searchDebuggerReceiver;
+        this.searchDebuggerReceiver = undefined;
+        await receiver?.stop();
+    }
+
+    /**
+     * Converts the plan time unit to seconds.
+     * @param planTimeUnit unit name, or ISO 8601 duration of one time unit e.g. `PT15M`
+     * @returns number of seconds in one plan time unit
+     * @throws InvalidDurationError if the unit is not known
+     */
+    static toPlanTimeScale(planTimeUnit: PlanTimeUnit | string): number {
         switch (planTimeUnit) {
             case "MINUTE":
                 return 60;
@@ -92,54 +166,108 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
             case "WEEK":
                 return 7 * 24 * 60 * 60;
             case "SECOND":
-            default:
                 return 1;
+            default:
+                return toCustomPlanTimeScale(planTimeUnit);
         }
     }
 
     async processServerResponseBody(_origUrl: string, responseBody: AsyncServerResponse, planParser: parser.PddlPlannerOutputParser,
-        callbacks: planner.PlannerResponseHandler): Promise<Plan[]> {
+        callbacks: planner.PlannerResponseHandler, signal?: AbortSignal): Promise<Plan[]> {
 
-        // todo: the output returned may be cumulative, print only the new part
-        callbacks.handleOutput(responseBody.output);
-        
-        const responseStatus = responseBody.status.status;
-        if (["STOPPED", "SEARCHING_BETTER_PLAN"].includes(responseStatus)) {
-            if (responseBody.status.reason === "TIMEOUT") {
-                console.log(`Planning request timed out.`);
-            }
-            if (responseBody.plans.length > 0) {
-                const plansJson = responseBody.plans;
+        let response = responseBody;
+        const polling = this.asyncMode ? this.createPollingSchedule() : undefined;
+        while (polling && IN_PROGRESS_STATUSES.includes(response.status.status)) {
+            // the job is running on the server, pass on what was found so far and poll again later
+            await this.processPartialResults(response, planParser, callbacks);
 
-                const parserPromises = plansJson.map(plan => this.parsePlan(plan, planParser));
-                await Promise.all(parserPromises);
-
-                const plans = planParser.getPlans();
-                for (let index = this.lastPlanPrinted + 1; index < plans.length; index++) {
-                    callbacks.handlePlan(plans[index]);
-                    this.lastPlanPrinted = index;
-                }
-                if (plans.length === 0) {
-                    callbacks.handleOutput('No plan found.');
+            if (this.remoteJobUrl === undefined) {
+                // the job id is returned upon submission
+                if (response.id === undefined) {
+                    throw new PlanningServiceError(`Planner service did not return the job 'id' for the asynchronous request.`);
                 }
+                this.remoteJobUrl = this.createJobUrl(response.id);
+                this.emitLifecycleEvent({ type: 'accepted', jobUrl: this.remoteJobUrl });
+            }
+            await polling.wait(response.status.status, signal);
+            response = await getJson<AsyncServerResponse>(new URL(this.remoteJobUrl), { ...this.getHttpOptions(), signal: signal });
+            this.emitLifecycleEvent({ type: 'polled', url: this.remoteJobUrl, status: response.status.status });
+        }
+
+        const plans = await this.processPartialResults(response, planParser, callbacks);
 
-                return plans;
+        const responseStatus = response.status.status;
+        if (["STOPPED", "SEARCHING_BETTER_PLAN"].includes(responseStatus)) {
+            if (response.status.reason === "TIMEOUT") {
+                console.log(`Planning request timed out.`);
             }
-            else {
-                // todo: no plan found yet. Poll again later.
-                return [];
+            if (plans.length === 0 && (response.plans ?? []).length > 0) {
+                callbacks.handleOutput('No plan found.');
             }
+            return plans;
         }
         else if (responseStatus === "FAILED") {
-            const error = responseBody.status.error.message;
-            throw new Error(error);
+            const error = response.status.error.message;
+            throw new PlannerFailedError(error, responseStatus, response.output);
         }
         else if (["NOT_INITIALIZED", "INITIATING", "SEARCHING_INITIAL_PLAN"].includes(responseStatus)) {
             const error = `After timeout ${this.timeout} the status is ${responseStatus}`;
-            throw new Error(error);
+            throw new PlanningTimeoutError(error, this.timeout, responseStatus);
         } else {
-            throw new Error(`Planner service returned unexpected status: ${responseStatus}.`);
+            throw new PlannerFailedError(`Planner service returned unexpected status: ${responseStatus}.`, responseStatus, response.output);
+        }
+    }
+
+    /**
+     * Creates the schedule of the asynchronous job status checks. The `pollingInterval` (if configured) makes the interval constant.
+     * The polling gives up shortly after the planning `timeout`, so a service that does not stop the job is not polled forever.
+     */
+    private createPollingSchedule(): PollingSchedule {
+        const pollingInterval = this.asyncPlannerConfiguration.pollingInterval;
+        const policy: Partial<PollingPolicy> = pollingInterval !== undefined ?
+            { initialInterval: pollingInterval, backoffFactor: 1, maxInterval: pollingInterval } :
+            { initialInterval: PlannerAsyncService.DEFAULT_POLLING_INTERVAL, ...this.asyncPlannerConfiguration.polling };
+        return new PollingSchedule(policy, this.getTimeout() * PlannerAsyncService.POLLING_DEADLINE_ALLOWANCE);
+    }
+
+    /**
+     * Passes the output and plans that were not seen in the previous responses to the `callbacks`.
+     * The `output` and `plans` returned by the service are cumulative.
+     * @returns all plans found so far
+     */
+    private async processPartialResults(response: AsyncServerResponse, planParser: parser.PddlPlannerOutputParser,
+        callbacks: planner.PlannerResponseHandler): Promise<Plan[]> {
+
+        const output = response.output ?? '';
+        if (output.length < this.outputPrinted) {
+            // the service must have truncated the output
+            this.outputPrinted = 0;
+        }
+        if (output.length > this.outputPrinted) {
+            callbacks.handleOutput(output.substring(this.outputPrinted));
+            this.outputPrinted = output.length;
+        }
+
+        const newPlans = (response.plans ?? []).slice(this.plansParsed);
+        for (const plan of newPlans) {
+            await this.parsePlan(plan, planParser);
+            this.plansParsed++;
+        }
+
+        const plans = planParser.getPlans();
+        for (let index = this.lastPlanPrinted + 1; index < plans.length; index++) {
+            callbacks.handlePlan(plans[index]);
+            this.lastPlanPrinted = index;
         }
+        return plans;
+    }
+
+    /**
+     * Deletes the asynchronous job.
+     * @param jobUrl job url
+     */
+    protected async terminateRemoteJobAt(jobUrl: string): Promise<void> {
+        await deleteResource(new URL(jobUrl), this.getHttpOptions());
     }
 
     async parsePlan(plan: AsyncResponsePlan, planParser: parser.PddlPlannerOutputParser): Promise<void> {
@@ -150,31 +278,14 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
         const elapsedTimeInSeconds = parseFloat(searchPerformanceInfo.timeElapsed) / 1000;
         const planTimeUnit = plan.timeUnit;
         planTimeUnit && console.log("Plan time unit: " + planTimeUnit);
-        const planTimeScale = (planTimeUnit && PlannerAsyncService.toPlanTimeScale(planTimeUnit)) ?? this.planTimeScale;
+        const planTimeScale = planTimeUnit ? PlannerAsyncService.toPlanTimeScale(planTimeUnit) : this.planTimeScale;
 
         planParser.setPlanMetaData(makespan, metric, statesEvaluated, elapsedTimeInSeconds, planTimeScale);
 
-        const planFormat = plan.format;
-        if (planFormat?.toLowerCase() === 'json') {
-            const planSteps = JSON.parse(plan.content);
-            this.convertPlanSteps(planSteps, planParser);
-            planParser.onPlanFinished();
-        }
-        else if (planFormat?.toLowerCase() === 'tasks') {
-            const planText = plan.content;
-            planParser.appendLine(planText);
-            planParser.onPlanFinished();
-        }
-        else if (planFormat?.toLowerCase() === 'xplan') {
-            const planText = plan.content;
-            await planParser.appendXplan(planText); // must await the underlying async xml parsing
-        }
-        else {
-            throw new Error('Unsupported plan format: ' + planFormat);
-        }
+        await this.planDecoders.decode(plan.content, planParser, plan.format);
     }
 
-    static createDefaultConfiguration(timeout: number): AsyncServiceOnlyConfiguration {
+    static createDefaultConfiguration(timeout: Duration): AsyncServiceOnlyConfiguration {
         return {
             planFormat: "JSON",
             timeout: timeout
@@ -182,10 +293,32 @@ export class PlannerAsyncService extends PlannerService<AsyncServerRequest, Asyn
     }
 }
 
+function toCustomPlanTimeScale(planTimeUnit: string): number {
+    let scale: number | undefined;
+    try {
+        scale = toSeconds(planTimeUnit, 'plan time unit');
+    } catch {
+        // reported below
+    }
+    if (!scale) {
+        throw new InvalidDurationError(`Unknown plan time unit: ${planTimeUnit}. ` +
+            `Expected one of ${PLAN_TIME_UNITS.join(', ')} or ISO 8601 duration e.g. PT15M.`, planTimeUnit);
+    }
+    return scale;
+}
+
 export interface AsyncServiceOnlyConfiguration {
     planFormat: string;
-    planTimeUnit?: PlanTimeUnit;
-    timeout?: number;
+    /** Plan time unit name, or ISO 8601 duration of one time unit e.g. `PT15M` for 15-minute ticks. Default is `HOUR`. */
+    planTimeUnit?: PlanTimeUnit | string;
+    /** Planning timeout as a number of seconds, or as ISO 8601 duration e.g. `PT90S`. */
+    timeout?: Duration;
+    /** Submit the request with `?async=true` and poll the job for improving plans until it stops. Default is `false`. */
+    asyncMode?: boolean;
+    /** Constant interval (in milliseconds) between two polls of the asynchronous job. It takes precedence over the `polling` policy. */
+    pollingInterval?: number;
+    /** Intervals between the polls of the asynchronous job. The polling stops with the `PlanningTimeoutError` shortly after the `timeout`. */
+    polling?: Partial<PollingPolicy>;
 }
 
 export interface AsyncServiceConfiguration extends planner.PlannerRunConfiguration, AsyncServiceOnlyConfiguration {
@@ -196,7 +329,7 @@ interface AsyncServerRequest extends ServerRequest {
     domain: AsyncServerRequestFile;
     problem: AsyncServerRequestFile;
     configuration?: AsyncServiceConfiguration;
-    callbacks?: AsyncServiceCallback[];
+    callbacks?: SearchDebuggerCallback[];
 }
 
 interface AsyncServerRequestFile {
@@ -205,16 +338,14 @@ interface AsyncServerRequestFile {
     content: string;
 }
 
-interface AsyncServiceCallback {
-    type: 'STATES' | 'PLAN' | 'STATES';
-    url: string;
-    token: string;
-}
+type AsyncServerResponseStatus = "NOT_INITIALIZED" | "INITIATING" | "SEARCHING_INITIAL_PLAN" | "STOPPED" | "SEARCHING_BETTER_PLAN" | "FAILED";
 
 /** Async service response body. */
 interface AsyncServerResponse extends ServerResponse {
+    /** Job identifier. Populated when the request was submitted with `?async=true`. The job status is then at `/request/{id}`. */
+    id?: string;
     status: {
-        status: "NOT_INITIALIZED" | "INITIATING" | "SEARCHING_INITIAL_PLAN" | "STOPPED" | "SEARCHING_BETTER_PLAN" | "FAILED";
+        status: AsyncServerResponseStatus;
         error: {
             message: string;
         }
@@ -231,9 +362,11 @@ interface AsyncResponsePlan {
         statesEvaluated: number;
         timeElapsed: string; // really a string?
     }
-    timeUnit: PlanTimeUnit;
+    timeUnit: PlanTimeUnit | string;
     format?: string;
     content: string;
 }
 
-type PlanTimeUnit = "MINUTE" | "MILLISECOND" | "HOUR" | "DAY" | "WEEK" | "SECOND";
\ No newline at end of file
+const PLAN_TIME_UNITS = ["MILLISECOND", "SECOND", "MINUTE", "HOUR", "DAY", "WEEK"] as const;
+
+export type PlanTimeUnit = typeof PLAN_TIME_UNITS[number];
\ No newline at end of file
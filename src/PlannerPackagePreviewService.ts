@@ -5,15 +5,25 @@
 'use strict';
 
 import { Plan, ProblemInfo, DomainInfo, parser, planner } from 'pddl-workspace';
-import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
-import { URL } from "url";
+import { PlannerService, PlannerServiceKind, ServerRequest, ServerResponse } from './PlannerService';
 import { getJson } from './httpUtils';
+import { PollingPolicy, PollingSchedule } from './PollingPolicy';
+import { EndpointService } from './PackagedPlanners';
+import { validateServiceArguments } from './ServiceArguments';
+import { PlannerFailedError, PlanningServiceError, ServiceArgumentsError } from './errors';
+import { Duration, toSeconds } from './durationUtils';
 
 /** Wraps the `/package/xyz/solve` planning-as-a-service web service interface. */
 export class PlannerPackagePreviewService extends PlannerService<PackagedServerRequest, PackagedServerResponse> {
 
-    constructor(plannerUrl: string, plannerConfiguration: planner.PlannerRunConfiguration, providerConfiguration: planner.ProviderConfiguration) {
-        super(plannerUrl, plannerConfiguration, providerConfiguration);
+    public static readonly DEFAULT_TIMEOUT = 20;
+
+    constructor(plannerUrl: string, private readonly packagedConfiguration: PackagedServiceConfiguration, providerConfiguration: planner.ProviderConfiguration) {
+        super(plannerUrl, packagedConfiguration, providerConfiguration);
+    }
+
+    get serviceKind(): PlannerServiceKind {
+        return PlannerServiceKind.Package;
     }
 
     createUrl(): string {
@@ -25,8 +35,11 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
         return url;
     }
 
+    /** Gets the overall time (in seconds) allowed for the request including the polling for results. */
     getTimeout(): number {
-        return 20;
+        return this.packagedConfiguration.timeout !== undefined ?
+            toSeconds(this.packagedConfiguration.timeout, 'timeout') :
+            PlannerPackagePreviewService.DEFAULT_TIMEOUT;
     }
 
     createRequestBody(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo): Promise<PackagedServerRequest | null> {
@@ -34,12 +47,53 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
             domain: domainFileInfo.getText(),
             problem: problemFileInfo.getText()
         };
-        body = Object.assign(body, this.plannerConfiguration);
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { timeout, polling, service, planSelection, ...serviceArgs } = this.packagedConfiguration;
+        body = Object.assign(body, serviceArgs);
+
+        if (service) {
+            const validation = validateServiceArguments(service, serviceArgs);
+            if (validation.problems.length > 0) {
+                const problems = validation.problems.map(problem => problem.message).join('\n');
+                throw new ServiceArgumentsError(`Invalid planner service arguments:\n${problems}`, validation.problems);
+            }
+            body = Object.assign(body, validation.args);
+        }
         return Promise.resolve(body);
     }
 
     async processServerResponseBody(origUrl: string, responseBody: PackagedServerResponse, planParser: parser.PddlPlannerOutputParser,
-        callbacks: planner.PlannerResponseHandler): Promise<Plan[]> {
+        callbacks: planner.PlannerResponseHandler, signal?: AbortSignal): Promise<Plan[]> {
+
+        const polling = new PollingSchedule(this.packagedConfiguration.polling, this.getTimeout());
+        let checkUrl = origUrl;
+        let response = responseBody;
+
+        for (;;) {
+            const outcome = await this.processResponse(checkUrl, response, planParser, callbacks);
+            if (Array.isArray(outcome)) {
+                return outcome;
+            }
+            checkUrl = outcome.checkUrl;
+            if (this.remoteJobUrl !== checkUrl) {
+                this.remoteJobUrl = checkUrl;
+                this.emitLifecycleEvent({ type: 'accepted', jobUrl: checkUrl });
+            }
+            if (outcome.pending) {
+                await polling.wait(response.status, signal);
+            }
+            console.log(`Checking for results at ${checkUrl} ...`);
+            response = await getJson<PackagedServerResponse>(new URL(checkUrl), { ...this.getHttpOptions(), signal: signal });
+            this.emitLifecycleEvent({ type: 'polled', url: checkUrl, status: response.status });
+        }
+    }
+
+    /**
+     * Processes one response of the service.
+     * @returns plans, if the job finished, or the url to check for the results
+     */
+    private async processResponse(origUrl: string, responseBody: PackagedServerResponse, planParser: parser.PddlPlannerOutputParser,
+        callbacks: planner.PlannerResponseHandler): Promise<Plan[] | ResultCheck> {
 
         const status = responseBody.status;
         const result = responseBody.result;
@@ -52,8 +106,7 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
         }
 
         if (status === "PENDING") {
-            await sleep(500);
-            return await this.checkForResults(origUrl, planParser, callbacks);
+            return { checkUrl: origUrl, pending: true };
         } else if (status === "error" || responseBody.Error) {
             if (result) {
                 const res = result as PackagedServerResponseResult
@@ -65,34 +118,27 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
                 return [];
             }
             else if (responseBody.Error) {
-                throw new Error(responseBody.Error);
+                throw new PlannerFailedError(responseBody.Error, status);
             } else {
-                throw new Error("An error occurred while solving the planning problem: " + JSON.stringify(result));
+                throw new PlannerFailedError("An error occurred while solving the planning problem: " + JSON.stringify(result), status);
             }
         } else if (status === undefined) {
             if (result !== undefined) {
                 const urlQuery = result;
                 if (typeof urlQuery === "string") {
                     const resultUrl = new URL(urlQuery, origUrl).toString();
-                    return await this.checkForResults(resultUrl, planParser, callbacks);
+                    return { checkUrl: resultUrl, pending: false };
                 } else {
-                    throw new Error("Element 'result should be a /check... url.");
+                    throw new PlanningServiceError("Element 'result should be a /check... url.", { url: origUrl });
                 }
             } else if (Object.keys(responseBody).some(key => key.includes('plan'))) {
                 const responseBody1 = responseBody as never as PlanUtilsServerResponseBody;
                 responseBody1.stdout && callbacks.handleOutput(responseBody1.stdout + '\n');
                 responseBody1.stderr && callbacks.handleOutput("Error: " + responseBody1.stderr + '\n');
-                Object.keys(responseBody)
-                    .filter(key => key.includes('plan'))
-                    .forEach(key => {
-                        const planText = responseBody1[key];
-                        planParser.appendBuffer(planText);
-                        planParser.onPlanFinished();
-                    });
-
-                const plans = planParser.getPlans();
+                const planKeys = Object.keys(responseBody).filter(key => key.includes('plan'));
+                const plans = await this.decodePlanOutputs(responseBody1, planKeys, planParser);
                 if (plans.length > 0) {
-                    callbacks.handlePlan(plans[0]);
+                    plans.forEach(plan => callbacks.handlePlan(plan));
                 } else {
                     callbacks.handleOutput('No plan found in the planner output.\n');
                 }
@@ -101,23 +147,15 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
                 const responseBody1 = responseBody as never as PlanUtilsServerResponseBody;
                 responseBody1.stdout && callbacks.handleOutput(responseBody1.stdout + '\n');
                 responseBody1.stderr && callbacks.handleOutput("Error: " + responseBody1.stderr + '\n');
-                throw new Error("Missing 'result' or '*plan*' elements.");
+                throw new PlanningServiceError("Missing 'result' or '*plan*' elements.", { url: origUrl });
             }
         }
         else if (status === "ok" && result) {
             const res = result as PackagedServerResponseResult
 
-            if (res.output) {
-                Object.keys(res.output).forEach(key => {
-                    const planText = res.output[key];
-                    planParser.appendBuffer(planText);
-                    planParser.onPlanFinished();
-                });
-            }
-
-            const plans = planParser.getPlans();
+            const plans = res.output ? await this.decodePlanOutputs(res.output, Object.keys(res.output), planParser) : [];
             if (plans.length > 0) {
-                callbacks.handlePlan(plans[0]);
+                plans.forEach(plan => callbacks.handlePlan(plan));
             }
             else {
                 callbacks.handleOutput(`Planner output: ${JSON.stringify(res.output)}`);
@@ -126,22 +164,91 @@ export class PlannerPackagePreviewService extends PlannerService<PackagedServerR
 
             return plans;
         } else {
-            throw new Error(`Planner service failed with status ${status}.`);
+            throw new PlannerFailedError(`Planner service failed with status ${status}.`, status);
         }
     }
 
-    async checkForResults(origUrl: string, planParser: parser.PddlPlannerOutputParser, callbacks: planner.PlannerResponseHandler): Promise<Plan[]> {
+    /**
+     * Decodes the plan outputs in the order of their numeric suffix (e.g. `sas_plan.1`, `sas_plan.2`, ..., `sas_plan.10`)
+     * and applies the `planSelection` of the configuration.
+     * @returns selected plans
+     */
+    private async decodePlanOutputs(outputs: PackagedServerResponseResultOutput, keys: string[], planParser: parser.PddlPlannerOutputParser): Promise<Plan[]> {
+        for (const key of [...keys].sort(compareOutputKeys)) {
+            const decodedCount = planParser.getPlans().length;
+            await this.planDecoders.decode(outputs[key], planParser);
+            planParser.getPlans().slice(decodedCount).forEach(plan => (plan as PackagedPlan).outputKey = key);
+        }
+
+        const selection = this.packagedConfiguration.planSelection ?? {};
+        const plans = planParser.getPlans()
+            .filter(plan => selection.maxCost === undefined || plan.metric <= selection.maxCost)
+            .filter(plan => selection.filter?.(plan, getPlanOutputKey(plan) ?? '') ?? true);
+        return selection.limit !== undefined ? plans.slice(0, selection.limit) : plans;
+    }
+
+    async checkForResults(origUrl: string, planParser: parser.PddlPlannerOutputParser, callbacks: planner.PlannerResponseHandler, signal?: AbortSignal): Promise<Plan[]> {
         console.log(`Checking for results at ${origUrl} ...`);
-        const response = await getJson<PackagedServerResponse>(new URL(origUrl))
-        return await this.processServerResponseBody(origUrl, response, planParser, callbacks);
+        const response = await getJson<PackagedServerResponse>(new URL(origUrl), { ...this.getHttpOptions(), signal: signal });
+        return await this.processServerResponseBody(origUrl, response, planParser, callbacks, signal);
     }
 }
 
 
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => {
-        setTimeout(resolve, ms);
-    });
+/** Planner package run configuration. Other than the listed properties are passed to the service as arguments. */
+export interface PackagedServiceConfiguration extends planner.PlannerRunConfiguration {
+    /** Overall time allowed for the request including the polling for results; number of seconds, or ISO 8601 duration e.g. `PT5M`. */
+    timeout?: Duration;
+    /** Polling for results of the submitted job. */
+    polling?: Partial<PollingPolicy>;
+    /** Service declaration from the package manifest. When provided, the arguments are validated (and defaults populated) before sending. */
+    service?: EndpointService;
+    /** Selects which of the plans returned by multi-plan services (e.g. top-k planners) are passed to the response handler. */
+    planSelection?: PlanSelection;
+}
+
+/** Selection of the plans returned by multi-plan services. */
+export interface PlanSelection {
+    /** Maximum number of plans (the first plans in the output order are kept). */
+    limit?: number;
+    /** Plans with greater metric (cost) are dropped. */
+    maxCost?: number;
+    /** Custom filter; `outputKey` is the service output the plan was decoded from e.g. `sas_plan.2` */
+    filter?: (plan: Plan, outputKey: string) => boolean;
+}
+
+/** Plan returned by the planner package service. */
+export interface PackagedPlan extends Plan {
+    /** Service output the plan was decoded from e.g. `sas_plan.2` */
+    outputKey?: string;
+}
+
+/**
+ * Gets the service output the plan was decoded from.
+ * @param plan plan returned by the planner package service
+ * @returns output key e.g. `sas_plan.2`, or `undefined` if the plan did not come from a planner package service
+ */
+export function getPlanOutputKey(plan: Plan): string | undefined {
+    return (plan as PackagedPlan).outputKey;
+}
+
+/** Orders output keys by name and then by the numeric suffix, so `sas_plan` < `sas_plan.2` < `sas_plan.10`. */
+function compareOutputKeys(key1: string, key2: string): number {
+    const [name1, suffix1] = splitOutputKey(key1);
+    const [name2, suffix2] = splitOutputKey(key2);
+    return name1 !== name2 ? name1.localeCompare(name2) : suffix1 - suffix2;
+}
+
+function splitOutputKey(key: string): [string, number] {
+    const match = key.match(/^(.*)\.(\d+)$/);
+    return match ? [match[1], parseInt(match[2])] : [key, -1];
+}
+
+/** Url to check for the results of the submitted job. */
+interface ResultCheck {
+    checkUrl: string;
+    /** `true` if the job was reported as pending, so the next check should be delayed. */
+    pending: boolean;
 }
 
 export type PackagedServerRequestArgs = { [key: string]: number | string | boolean };
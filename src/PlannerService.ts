@@ -4,74 +4,269 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { planner, Plan, ProblemInfo, DomainInfo, parser, PlanStep } from 'pddl-workspace';
-import { postJson } from './httpUtils';
-import { URL } from 'url';
-import { OutgoingHttpHeaders } from 'http';
+import { planner, Plan, ProblemInfo, DomainInfo, parser } from 'pddl-workspace';
+import { HttpClientOptions, postJson } from './httpUtils';
+import { PlanningCancelledError, PlanningServiceError } from './errors';
+import { BearerTokenAuthentication } from './AuthenticationProvider';
+import { convertJsonPlanSteps, JsonPlanStep, PlanDecoderRegistry } from './PlanDecoderRegistry';
+import { PddlTemplateOptions, PddlTemplateRenderer, RenderedTemplates } from './PddlTemplateRenderer';
+import type { PlanCache } from './PlanCache';
 
 
+/** Planning service protocols. */
+export enum PlannerServiceKind {
+    /** `/solve` e.g. solver.planning.domains */
+    Sync = "Sync",
+    /** `/request` */
+    Async = "Async",
+    /** `/package/xyz/solve` planning-as-a-service */
+    Package = "Package",
+    /** `/package` planning-as-a-service root listing the package manifests */
+    PackageRoot = "PackageRoot",
+}
+
 /** Abstract implementation of both sync/async planning service client. */
 export abstract class PlannerService<I extends ServerRequest, O extends ServerResponse> extends planner.Planner {
 
+    private abortController: AbortController | undefined;
+    /** Url of the job running on the remote service (if the protocol exposes one). It is used to terminate the job upon cancellation. */
+    protected remoteJobUrl: string | undefined;
+    /**
+     * Options applied to all HTTP requests sent to this service e.g. the traffic recording cassette or the authentication provider.
+     * Without the `authentication` provider, the bearer token of the `plannerConfiguration.authentication` is sent.
+     */
+    httpOptions: HttpClientOptions = {};
+    /** Decoders of the plans returned by this service. Register custom formats here, or in the shared `PlanDecoderRegistry.default`. */
+    planDecoders: PlanDecoderRegistry = PlanDecoderRegistry.default;
+    /**
+     * Cache of the plans found by this service. Repeated requests with the same domain, problem and configuration are then served from the cache.
+     * No caching by default.
+     */
+    planCache: PlanCache | undefined;
+    private readonly lifecycleListeners: PlanningLifecycleListener[] = [];
+    /** Time (milliseconds since epoch) the planning request in progress started. */
+    private planningStartedAt = Date.now();
+    private _renderedTemplates: RenderedTemplates | undefined;
+
     constructor(plannerUrl: string, plannerConfiguration: planner.PlannerRunConfiguration, providerConfiguration: planner.ProviderConfiguration) {
         super(plannerUrl, plannerConfiguration, providerConfiguration);
     }
 
+    /** Protocol of this service. It is recorded in the `PlanningServiceError`s. */
+    get serviceKind(): PlannerServiceKind | undefined {
+        return undefined;
+    }
+
+    /** Url of this service. */
+    get serviceUrl(): string {
+        return this.plannerPath;
+    }
+
+    /** PDDL rendered from the templates by the last planning request (if it used the `templating` option). */
+    get renderedTemplates(): RenderedTemplates | undefined {
+        return this._renderedTemplates;
+    }
+
+    /** Options of the HTTP requests sent to this service incl. the effective authentication provider. */
+    protected getHttpOptions(): HttpClientOptions {
+        const authentication = this.httpOptions.authentication ??
+            (this.plannerConfiguration.authentication && BearerTokenAuthentication.fromConfiguration(this.plannerConfiguration.authentication));
+        return { ...this.httpOptions, authentication };
+    }
+
+    /**
+     * Subscribes to the lifecycle events of the planning requests e.g. to show progress.
+     * @param listener lifecycle event listener
+     */
+    addLifecycleListener(listener: PlanningLifecycleListener): void {
+        this.lifecycleListeners.push(listener);
+    }
+
+    /**
+     * Unsubscribes from the lifecycle events.
+     * @param listener lifecycle event listener
+     */
+    removeLifecycleListener(listener: PlanningLifecycleListener): void {
+        const index = this.lifecycleListeners.indexOf(listener);
+        index > -1 && this.lifecycleListeners.splice(index, 1);
+    }
+
+    /**
+     * Notifies the lifecycle listeners. Listener failures are logged, but do not affect the planning.
+     * @param detail event details
+     */
+    protected emitLifecycleEvent(detail: PlanningLifecycleEventDetail): void {
+        const event: PlanningLifecycleEvent = { ...detail, elapsed: Date.now() - this.planningStartedAt };
+        for (const listener of [...this.lifecycleListeners]) {
+            try {
+                listener(event);
+            } catch (err: unknown) {
+                console.warn(`Planning lifecycle listener failed: ${err}`);
+            }
+        }
+    }
+
+    /**
+     * Creates the `planCache` key of the planning request sent by this service.
+     * @param domainText domain text (as sent to the service)
+     * @param problemText problem text (as sent to the service)
+     * @returns cache key e.g. to `invalidate` the cached plans, or `undefined` if the service has no `planCache`
+     */
+    createPlanCacheKey(domainText: string, problemText: string): string | undefined {
+        return this.planCache?.createKey(domainText, problemText, this.createUrl(), this.plannerConfiguration);
+    }
+
     abstract createRequestBody(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo): Promise<I | null>;
 
     abstract createUrl(): string;
 
     abstract processServerResponseBody(origUrl: string, responseBody: O, planParser: parser.PddlPlannerOutputParser,
-        parent: planner.PlannerResponseHandler): Promise<Plan[]>;
+        parent: planner.PlannerResponseHandler, signal?: AbortSignal): Promise<Plan[]>;
+
+    /**
+     * Sends the planning request to the service and processes the response.
+     * @param domainFileInfo domain
+     * @param problemFileInfo problem
+     * @param planParser plan parser
+     * @param parent planner response handler
+     * @param options request options e.g. the `signal` to cancel the planning
+     * @returns plans found by the planning service
+     * @throws PlanningCancelledError if the request was cancelled by the `options.signal` or by `stop()`
+     */
+    async plan(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler,
+        options?: PlanningRequestOptions): Promise<Plan[]> {
+
+        const abortController = this.abortController = new AbortController();
+        const abort = (): void => abortController.abort();
+        if (options?.signal?.aborted) {
+            abort();
+        } else {
+            options?.signal?.addEventListener('abort', abort, { once: true });
+        }
+        this.remoteJobUrl = undefined;
+        this._renderedTemplates = undefined;
+        this.planningStartedAt = Date.now();
+        const observedParent = new LifecycleResponseHandler(parent, detail => this.emitLifecycleEvent(detail));
 
-    async plan(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler): Promise<Plan[]> {
+        try {
+            const plans = await this.planWithSignal(domainFileInfo, problemFileInfo, planParser, observedParent, abortController.signal, options?.templating);
+            this.emitLifecycleEvent({ type: 'completed', plans, firstPlanElapsed: observedParent.firstPlanElapsed(this.planningStartedAt) });
+            return plans;
+        } catch (err: unknown) {
+            if (abortController.signal.aborted) {
+                await this.terminateRemoteJob();
+                err = err instanceof PlanningCancelledError ? err : new PlanningCancelledError();
+            }
+            if (err instanceof PlanningServiceError) {
+                err.serviceKind = err.serviceKind ?? this.serviceKind;
+                err.url = err.url ?? this.remoteJobUrl ?? this.plannerPath;
+            }
+            this.emitLifecycleEvent({ type: 'failed', error: err, cancelled: err instanceof PlanningCancelledError });
+            throw err;
+        } finally {
+            options?.signal?.removeEventListener('abort', abort);
+            if (this.abortController === abortController) {
+                this.abortController = undefined;
+            }
+        }
+    }
+
+    private async planWithSignal(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler,
+        signal: AbortSignal, templating: PddlTemplateOptions | undefined): Promise<Plan[]> {
         parent.handleOutput(`Planning service: ${this.plannerPath}\nDomain: ${domainFileInfo.name}, Problem: ${problemFileInfo.name}\n`);
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let requestHeader: OutgoingHttpHeaders = {};
-        if (this.plannerConfiguration.authentication?.getToken() !== undefined) {
-            requestHeader = {
-                "Authorization": "Bearer " + this.plannerConfiguration.authentication.getToken()
-            };
+        if (templating) {
+            let rendered: RenderedTemplates;
+            [domainFileInfo, problemFileInfo, rendered] = await new PddlTemplateRenderer(templating).renderDomainAndProblem(domainFileInfo, problemFileInfo);
+            this._renderedTemplates = rendered;
+            this.emitLifecycleEvent({ type: 'templatesRendered', rendered });
         }
 
         // currently, this is used to notify any observers that planning is starting
         parent.providePlannerOptions({ domain: domainFileInfo, problem: problemFileInfo });
 
+        const cacheKey = this.createPlanCacheKey(domainFileInfo.getText(), problemFileInfo.getText());
+        const cachedPlans = cacheKey !== undefined ? await this.getCachedPlans(cacheKey, planParser, parent) : undefined;
+        if (cachedPlans) { return cachedPlans; }
+
         const requestBody = await this.createRequestBody(domainFileInfo, problemFileInfo);
         if (!requestBody) { return []; }
         const url: string = this.createUrl();
 
         const timeoutInSec = this.getTimeout();
+        this.emitLifecycleEvent({ type: 'requestBuilt', url });
 
+        const httpOptions = this.getHttpOptions();
+        let requestSent = false;
         const output = await postJson<O>(new URL(url), requestBody as never, {
-            isAuthenticated: this.plannerConfiguration.authentication !== undefined,
+            ...httpOptions,
+            isAuthenticated: httpOptions.authentication !== undefined,
             serviceFriendlyName: 'PDDL Planning Service',
-            headers: requestHeader,
             json: true,
             timeout: timeoutInSec * 1000 * 1.1,
+            signal: signal,
+            onRequestSent: () => {
+                // reported once, even if the request is re-sent
+                !requestSent && this.emitLifecycleEvent({ type: 'requestSent', url });
+                requestSent = true;
+            },
+            retry: httpOptions.retry === false ? false : {
+                onRetry: event => parent.handleOutput(`Planning service declined the request (${(event.error as Error).message}). Retrying in ${Math.round(event.delay)}ms...\n`),
+                ...httpOptions.retry,
+            },
         });
 
-        const plans = await this.processServerResponseBody(url, output, planParser, parent);
+        const plans = await this.processServerResponseBody(url, output, planParser, parent, signal);
+
+        if (cacheKey !== undefined && plans.length > 0) {
+            await this.planCache?.set(cacheKey, url, plans);
+        }
+
+        return plans;
+    }
 
+    private async getCachedPlans(key: string, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler): Promise<Plan[] | undefined> {
+        const planCache = this.planCache;
+        const entry = await planCache?.get(key);
+        if (!planCache || !entry) { return undefined; }
+
+        parent.handleOutput(`Plans served from cache (cached ${new Date(entry.createdAt).toISOString()} from ${entry.serviceUrl}, key ${key.substring(0, 12)}).\n`);
+        this.emitLifecycleEvent({ type: 'servedFromCache', key, createdAt: entry.createdAt });
+        const plans = planCache.restorePlans(entry, planParser);
+        plans.forEach(plan => parent.handlePlan(plan));
         return plans;
     }
 
+    /** Cancels the planning request in progress. */
+    stop(): void {
+        super.stop();
+        this.abortController?.abort();
+    }
+
+    private async terminateRemoteJob(): Promise<void> {
+        if (this.remoteJobUrl === undefined) { return; }
+        try {
+            await this.terminateRemoteJobAt(this.remoteJobUrl);
+        } catch (err: unknown) {
+            console.warn(`Failed to terminate the remote job ${this.remoteJobUrl}: ${err}`);
+        }
+    }
+
+    /**
+     * Asks the service to kill the job, which is no longer needed.
+     * Override in services, whose protocol supports remote job termination. By default, nothing is sent.
+     * @param _jobUrl url of the job (see `remoteJobUrl`)
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    protected async terminateRemoteJobAt(_jobUrl: string): Promise<void> {
+        // the protocol does not support job termination
+    }
+
     /** Gets timeout in seconds. */
     abstract getTimeout(): number;
 
     convertPlanSteps(planSteps: JsonPlanStep[], planParser: parser.PddlPlannerOutputParser): void {
-        for (let index = 0; index < planSteps.length; index++) {
-            const planStep = planSteps[index];
-            const fullActionName = planStep.name.replace('(', '').replace(')', '');
-            const time = planStep.time ?? (index + 1) * planParser.options.epsilon;
-            let duration = planStep.duration;
-            const isDurative = duration !== undefined && duration !== null;
-            duration = duration ?? planParser.options.epsilon;
-            const planStepObj = new PlanStep(time, fullActionName, isDurative, duration, index);
-            planParser.appendStep(planStepObj);
-        }
-        planParser.onPlanFinished();
+        convertJsonPlanSteps(planSteps, planParser);
     }
 }
 
@@ -98,6 +293,79 @@ export function instanceOfHttpConnectionRefusedError(object: any): object is Htt
     return (instanceOfHttpConnectionError(object)) && (object as HttpConnectionError).code === 'ECONNREFUSED';
 }
 
+/** Options of one planning request. */
+export interface PlanningRequestOptions {
+    /** Cancels the planning request, tears down the connection and stops polling for results. */
+    signal?: AbortSignal;
+    /**
+     * Renders the problem (and optionally the domain) as Nunjucks template with the data context before it is sent.
+     * The plans refer to the problem passed to the `plan` method; the rendered PDDL is kept in the `renderedTemplates`.
+     */
+    templating?: PddlTemplateOptions;
+}
+
+/**
+ * Planning request lifecycle event details:
+ * - `templatesRendered`: the problem (and domain) templates were rendered (see the `templating` option),
+ * - `servedFromCache`: the plans were found in the `planCache` (cached at `createdAt`), so no request is sent,
+ * - `requestBuilt`: the request body was created,
+ * - `requestSent`: the request was handed over to the HTTP transport to be sent to the `url`,
+ * - `accepted`: the service queued the job; its status is checked at the `jobUrl`,
+ * - `polled`: the job status was checked (the `status` as reported by the service e.g. `PENDING` or `SEARCHING_INITIAL_PLAN`),
+ * - `planReceived`: a plan was passed to the response handler,
+ * - `output`: a chunk of the planner output was passed to the response handler,
+ * - `completed`: the request finished with the `plans` (`firstPlanElapsed` is the time in milliseconds until the first plan was received),
+ * - `failed`: the request failed (or was `cancelled`).
+ */
+export type PlanningLifecycleEventDetail =
+    { type: 'templatesRendered', rendered: RenderedTemplates } |
+    { type: 'servedFromCache', key: string, createdAt: number } |
+    { type: 'requestBuilt', url: string } |
+    { type: 'requestSent', url: string } |
+    { type: 'accepted', jobUrl: string } |
+    { type: 'polled', url: string, status?: string } |
+    { type: 'planReceived', plan: Plan, planCount: number } |
+    { type: 'output', text: string } |
+    { type: 'completed', plans: Plan[], firstPlanElapsed?: number } |
+    { type: 'failed', error: unknown, cancelled: boolean };
+
+/** Planning request lifecycle event. */
+export type PlanningLifecycleEvent = PlanningLifecycleEventDetail & {
+    /** Time (in milliseconds) since the planning request started. */
+    elapsed: number;
+};
+
+export type PlanningLifecycleListener = (event: PlanningLifecycleEvent) => void;
+
+/** Reports the output and plans passed to the response handler as lifecycle events. */
+class LifecycleResponseHandler implements planner.PlannerResponseHandler {
+
+    private planCount = 0;
+    private firstPlanAt: number | undefined;
+
+    constructor(private readonly parent: planner.PlannerResponseHandler, private readonly emit: (detail: PlanningLifecycleEventDetail) => void) {
+    }
+
+    handleOutput(outputText: string): void {
+        this.parent.handleOutput(outputText);
+        this.emit({ type: 'output', text: outputText });
+    }
+
+    handlePlan(plan: Plan): void {
+        this.firstPlanAt = this.firstPlanAt ?? Date.now();
+        this.parent.handlePlan(plan);
+        this.emit({ type: 'planReceived', plan, planCount: ++this.planCount });
+    }
+
+    providePlannerOptions(context: planner.PlanningRequestContext): string[] {
+        return this.parent.providePlannerOptions(context);
+    }
+
+    firstPlanElapsed(startedAt: number): number | undefined {
+        return this.firstPlanAt !== undefined ? this.firstPlanAt - startedAt : undefined;
+    }
+}
+
 /** Server request body. */
 export interface ServerRequest {
 
@@ -107,10 +375,3 @@ export interface ServerRequest {
 export interface ServerResponse {
 
 }
-
-interface JsonPlanStep {
-    /** Action name. */
-    name: string;
-    time?: number;
-    duration?: number;
-}
\ No newline at end of file
@@ -0,0 +1,133 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { planner } from 'pddl-workspace';
+import { PlannerService, PlannerServiceKind, ServerRequest, ServerResponse } from './PlannerService';
+import { PlannerSyncService } from './PlannerSyncService';
+import { AsyncServiceConfiguration, PlannerAsyncService } from './PlannerAsyncService';
+import { PackagedServiceConfiguration, PlannerPackagePreviewService } from './PlannerPackagePreviewService';
+import { createPackageServiceUrl, EndpointService, PackagedPlanners, PackageManifest } from './PackagedPlanners';
+import { PlanningServiceError } from './errors';
+import { HttpClientOptions } from './httpUtils';
+
+/** Planning service client created by the `PlannerServiceFactory`. */
+export interface DetectedPlannerService {
+    kind: PlannerServiceKind.Sync | PlannerServiceKind.Async | PlannerServiceKind.Package;
+    /** Service url */
+    url: string;
+    service: PlannerService<ServerRequest, ServerResponse>;
+    /** Package manifest (for services listed by the planning-as-a-service root) */
+    manifest?: PackageManifest;
+    /** Service name within the package e.g. `solve` (for services listed by the planning-as-a-service root) */
+    serviceName?: string;
+}
+
+/** Creates the planning service clients matching the protocol spoken by the service url. */
+export class PlannerServiceFactory {
+
+    /**
+     * @param providerConfiguration planner provider configuration passed to the created clients
+     * @param httpOptions options applied to all HTTP requests of the created clients (and to the package manifest requests)
+     */
+    constructor(private readonly providerConfiguration: planner.ProviderConfiguration, private readonly httpOptions: HttpClientOptions = {}) {
+    }
+
+    /**
+     * Infers the service protocol from the url path.
+     * @param url service url
+     * @returns service kind, or `undefined` if the path is not conclusive
+     */
+    static detectKind(url: URL): PlannerServiceKind | undefined {
+        const segments = url.pathname.split('/').filter(segment => segment.length > 0);
+        const last = segments[segments.length - 1];
+        if (segments.length >= 3 && segments[segments.length - 3] === 'package') {
+            return PlannerServiceKind.Package;
+        } else if (last === 'package') {
+            return PlannerServiceKind.PackageRoot;
+        } else if (last === 'request') {
+            return PlannerServiceKind.Async;
+        } else if (last === 'solve') {
+            return PlannerServiceKind.Sync;
+        } else {
+            return undefined;
+        }
+    }
+
+    /**
+     * Creates the planning service clients for the url.
+     * When the url path is not conclusive, the url is probed for the planning-as-a-service package manifests.
+     * @param url service url or planning-as-a-service root url
+     * @param runConfiguration run configuration shared by all created clients
+     * @returns one client for a service endpoint, or one client per runnable package service for the planning-as-a-service root
+     */
+    async createServices(url: string, runConfiguration: planner.PlannerRunConfiguration = {}): Promise<DetectedPlannerService[]> {
+        const services = await this.createServicesFor(url, runConfiguration);
+        services.forEach(detected => detected.service.httpOptions = this.httpOptions);
+        return services;
+    }
+
+    private async createServicesFor(url: string, runConfiguration: planner.PlannerRunConfiguration): Promise<DetectedPlannerService[]> {
+        const serviceUrl = new URL(url);
+        const kind = PlannerServiceFactory.detectKind(serviceUrl);
+
+        switch (kind) {
+            case PlannerServiceKind.Sync:
+                return [{ kind, url, service: new PlannerSyncService(url, runConfiguration, this.providerConfiguration) }];
+            case PlannerServiceKind.Async:
+                return [{ kind, url, service: this.createAsyncService(url, runConfiguration) }];
+            case PlannerServiceKind.Package:
+                return [{ kind, url, service: new PlannerPackagePreviewService(url, runConfiguration, this.providerConfiguration) }];
+            case PlannerServiceKind.PackageRoot:
+                return this.createPackageServices(serviceUrl, await new PackagedPlanners(serviceUrl, this.httpOptions).getManifests(), runConfiguration);
+            default:
+                return this.createPackageServices(serviceUrl, await this.probeManifests(serviceUrl), runConfiguration);
+        }
+    }
+
+    private createAsyncService(url: string, runConfiguration: planner.PlannerRunConfiguration): PlannerAsyncService {
+        const configuration: AsyncServiceConfiguration = Object.assign(
+            PlannerAsyncService.createDefaultConfiguration(PlannerAsyncService.DEFAULT_TIMEOUT), runConfiguration);
+        return new PlannerAsyncService(url, configuration, this.providerConfiguration);
+    }
+
+    private async probeManifests(url: URL): Promise<PackageManifest[]> {
+        let manifests: unknown;
+        try {
+            manifests = await new PackagedPlanners(url, this.httpOptions).getManifests();
+        } catch (err: unknown) {
+            throw new PlanningServiceError(`Cannot detect the planning service protocol of ${url}: ${(err as Error).message ?? err}`, { url: url.toString() });
+        }
+        if (!Array.isArray(manifests)) {
+            throw new PlanningServiceError(`Cannot detect the planning service protocol of ${url}. Expected /solve, /request, /package/xyz/solve or a list of planner packages.`,
+                { url: url.toString() });
+        }
+        return manifests;
+    }
+
+    /**
+     * Creates one client per service of each runnable package.
+     * @param packageRootUrl planning-as-a-service root e.g. `https://solver.planning.domains:5001/package`
+     * @param manifests package manifests
+     * @param runConfiguration run configuration shared by all created clients
+     */
+    private createPackageServices(packageRootUrl: URL, manifests: PackageManifest[], runConfiguration: planner.PlannerRunConfiguration): DetectedPlannerService[] {
+        return manifests
+            .filter(manifest => manifest.runnable && manifest.package_name)
+            .flatMap(manifest => Object.entries(manifest.endpoint?.services ?? {})
+                .map(([serviceName, endpointService]) =>
+                    this.createPackageService(packageRootUrl, manifest, serviceName, endpointService, runConfiguration)));
+    }
+
+    private createPackageService(packageRootUrl: URL, manifest: PackageManifest, serviceName: string, endpointService: EndpointService,
+        runConfiguration: planner.PlannerRunConfiguration): DetectedPlannerService {
+        const url = createPackageServiceUrl(packageRootUrl, manifest.package_name as string, serviceName);
+        const configuration: PackagedServiceConfiguration = Object.assign({}, runConfiguration, { service: endpointService });
+        return {
+            kind: PlannerServiceKind.Package, url, manifest, serviceName,
+            service: new PlannerPackagePreviewService(url, configuration, this.providerConfiguration),
+        };
+    }
+}
@@ -5,13 +5,21 @@
 'use strict';
 
 import { Plan, ProblemInfo, DomainInfo, parser, planner } from 'pddl-workspace';
-import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
+import { PlannerService, PlannerServiceKind, ServerRequest, ServerResponse } from './PlannerService';
+import { PlannerFailedError } from './errors';
+import { Duration, toSeconds } from './durationUtils';
 
 /** Wraps the `/solve` planning web service interface. */
 export class PlannerSyncService extends PlannerService<SyncServerRequest, SyncServerResponse> {
 
-    constructor(plannerUrl: string, plannerConfiguration: planner.PlannerRunConfiguration, providerConfiguration: planner.ProviderConfiguration) {
-        super(plannerUrl, plannerConfiguration, providerConfiguration);
+    public static readonly DEFAULT_TIMEOUT = 60;
+
+    constructor(plannerUrl: string, private readonly syncConfiguration: SyncServiceConfiguration, providerConfiguration: planner.ProviderConfiguration) {
+        super(plannerUrl, syncConfiguration, providerConfiguration);
+    }
+
+    get serviceKind(): PlannerServiceKind {
+        return PlannerServiceKind.Sync;
     }
 
     createUrl(): string {
@@ -24,7 +32,9 @@ export class PlannerSyncService extends PlannerService<SyncServerRequest, SyncSe
     }
 
     getTimeout(): number {
-        return 60;
+        return this.syncConfiguration.timeout !== undefined ?
+            toSeconds(this.syncConfiguration.timeout, 'timeout') :
+            PlannerSyncService.DEFAULT_TIMEOUT;
     }
 
     createRequestBody(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo): Promise<SyncServerRequest | null> {
@@ -62,7 +72,7 @@ export class PlannerSyncService extends PlannerService<SyncServerRequest, SyncSe
                 return [];
             }
             else {
-                throw new Error("An error occurred while solving the planning problem: " + JSON.stringify(result));
+                throw new PlannerFailedError("An error occurred while solving the planning problem: " + JSON.stringify(result), status);
             }
         }
         else if (status === "ok" && result) {
@@ -73,7 +83,7 @@ export class PlannerSyncService extends PlannerService<SyncServerRequest, SyncSe
             }
 
             if (result.plan) {
-                this.convertPlanSteps(result.plan, planParser);
+                await this.planDecoders.decode(result.plan, planParser);
             }
 
             const plans = planParser.getPlans();
@@ -86,11 +96,16 @@ export class PlannerSyncService extends PlannerService<SyncServerRequest, SyncSe
 
             return plans;
         } else {
-            throw new Error(`Planner service failed with status ${status}.`);
+            throw new PlannerFailedError(`Planner service failed with status ${status}.`, status, result?.output);
         }
     }
 }
 
+/** Sync service run configuration. */
+export interface SyncServiceConfiguration extends planner.PlannerRunConfiguration {
+    /** Time allowed for the request as a number of seconds, or as ISO 8601 duration e.g. `PT90S`. Default is 60 seconds. */
+    timeout?: Duration;
+}
 
 /** Sync service request body. */
 interface SyncServerRequest extends ServerRequest {
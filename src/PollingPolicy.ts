@@ -0,0 +1,68 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { sleep } from './asyncUtils';
+import { PlanningTimeoutError } from './errors';
+
+/** Controls how often the client checks for the results of a submitted planning job. */
+export interface PollingPolicy {
+    /** Interval (in milliseconds) before the first check. */
+    initialInterval: number;
+    /** Factor by which the interval grows after each check (`1` for a constant interval). */
+    backoffFactor: number;
+    /** Upper bound of the interval (in milliseconds). */
+    maxInterval: number;
+}
+
+export const DEFAULT_POLLING_POLICY: PollingPolicy = {
+    initialInterval: 500,
+    backoffFactor: 1.5,
+    maxInterval: 5000,
+};
+
+/** Waits between the result checks of one planning job according to the `PollingPolicy` and enforces the overall deadline. */
+export class PollingSchedule {
+
+    private readonly policy: PollingPolicy;
+    private readonly deadline: number;
+    private nextInterval: number;
+    private _pollCount = 0;
+
+    /**
+     * Starts the schedule.
+     * @param policy polling policy (missing values are taken from `DEFAULT_POLLING_POLICY`)
+     * @param timeoutInSec overall time (in seconds) allowed for the job
+     */
+    constructor(policy: Partial<PollingPolicy> | undefined, private readonly timeoutInSec: number) {
+        this.policy = Object.assign({}, DEFAULT_POLLING_POLICY, policy);
+        this.nextInterval = this.policy.initialInterval;
+        this.deadline = Date.now() + timeoutInSec * 1000;
+    }
+
+    /** Number of waits so far. */
+    get pollCount(): number {
+        return this._pollCount;
+    }
+
+    /**
+     * Waits before the next check.
+     * @param lastStatus last known status of the job (reported in the timeout error)
+     * @param signal cancels the wait
+     * @throws PlanningTimeoutError if the next check would be after the deadline
+     * @throws PlanningCancelledError if the `signal` aborts
+     */
+    async wait(lastStatus: string | undefined, signal?: AbortSignal): Promise<void> {
+        const remaining = this.deadline - Date.now();
+        if (remaining <= 0) {
+            throw new PlanningTimeoutError(`Planning job did not finish within ${this.timeoutInSec}s. Last known status: ${lastStatus ?? 'unknown'}.`,
+                this.timeoutInSec, lastStatus);
+        }
+        const interval = Math.min(this.nextInterval, remaining);
+        this.nextInterval = Math.min(this.nextInterval * this.policy.backoffFactor, this.policy.maxInterval);
+        this._pollCount++;
+        await sleep(interval, signal);
+    }
+}
@@ -0,0 +1,157 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, parser, Plan, planner, ProblemInfo } from 'pddl-workspace';
+import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
+import { PlanningCancelledError } from './errors';
+
+/**
+ * How the portfolio picks the result.
+ * - `firstPlanWins`: the first service to find a plan wins, the other services are cancelled; the winner's plan with the lowest metric is picked,
+ * - `bestMetricWithinDeadline`: all services run until they finish (or until the deadline) and the plan with the lowest metric is picked.
+ */
+export type PortfolioStrategy = 'firstPlanWins' | 'bestMetricWithinDeadline';
+
+/** Planning service taking part in the portfolio. */
+export interface PortfolioMember {
+    /** Label used to tag the output and plans e.g. `solver.planning.domains`. */
+    label: string;
+    service: PlannerService<ServerRequest, ServerResponse>;
+}
+
+/** Plan found by one of the portfolio members. */
+export interface PortfolioPlan {
+    plan: Plan;
+    member: PortfolioMember;
+}
+
+/** Response handler receiving the plans tagged with the service that found them. */
+export interface PortfolioResponseHandler extends planner.PlannerResponseHandler {
+    /** Receives the plan instead of the `handlePlan`. */
+    handlePortfolioPlan(plan: Plan, member: PortfolioMember): void;
+}
+
+export interface PortfolioPlanningOptions {
+    strategy: PortfolioStrategy;
+    /** Time (in seconds) after which all services still running are cancelled. */
+    deadline?: number;
+    /** Cancels all services. */
+    signal?: AbortSignal;
+    /** Plan parser options. Default epsilon is `1e-3`. */
+    planParserOptions?: parser.PddlPlanParserOptions;
+}
+
+export interface PortfolioResult {
+    /** Plan picked by the strategy (if any) */
+    best?: PortfolioPlan;
+    /** All plans forwarded to the response handler (in the order they were found) */
+    plans: PortfolioPlan[];
+    /** Failures of the members (cancellation by the portfolio itself is not a failure) */
+    errors: { member: PortfolioMember, error: unknown }[];
+}
+
+/** Sends the same planning request to several planning services at the same time. */
+export class PortfolioPlanner {
+
+    readonly members: PortfolioMember[];
+
+    /**
+     * @param members planning services (labelled by their url, unless the label is given); each service must not be shared with other callers while planning
+     */
+    constructor(members: (PlannerService<ServerRequest, ServerResponse> | PortfolioMember)[]) {
+        this.members = members.map(member => member instanceof PlannerService ? { label: member.serviceUrl, service: member } : member);
+    }
+
+    /**
+     * Plans using all the members.
+     * @param domain domain
+     * @param problem problem
+     * @param parent receives the output and plans of all members (tagged by the member label)
+     * @param options strategy and deadline
+     * @returns plan picked by the strategy and all plans forwarded to the `parent`
+     */
+    async plan(domain: DomainInfo, problem: ProblemInfo, parent: planner.PlannerResponseHandler | PortfolioResponseHandler,
+        options: PortfolioPlanningOptions): Promise<PortfolioResult> {
+
+        const abortControllers = this.members.map(() => new AbortController());
+        const abortAll = (): void => abortControllers.forEach(controller => controller.abort());
+        if (options.signal?.aborted) {
+            abortAll();
+        } else {
+            options.signal?.addEventListener('abort', abortAll, { once: true });
+        }
+        const timer = options.deadline !== undefined ? setTimeout(abortAll, options.deadline * 1000) : undefined;
+
+        const plans: PortfolioPlan[] = [];
+        let winner: PortfolioMember | undefined;
+
+        const acceptPlan = (plan: Plan, member: PortfolioMember, index: number): void => {
+            if (options.strategy === 'firstPlanWins') {
+                if (winner === undefined) {
+                    winner = member;
+                    parent.handleOutput(`[${member.label}] found the first plan, cancelling the other services.\n`);
+                    abortControllers.filter((_, i) => i !== index).forEach(controller => controller.abort());
+                } else if (winner !== member) {
+                    return;
+                }
+            }
+            plans.push({ plan, member });
+            if ('handlePortfolioPlan' in parent) {
+                parent.handlePortfolioPlan(plan, member);
+            } else {
+                parent.handlePlan(plan);
+            }
+        };
+
+        try {
+            const results = await Promise.allSettled(this.members.map((member, index) => {
+                const planParser = new parser.PddlPlannerOutputParser(domain, problem, options.planParserOptions ?? { epsilon: 1e-3 });
+                const handler = new TaggingResponseHandler(member, parent, plan => acceptPlan(plan, member, index));
+                return member.service.plan(domain, problem, planParser, handler, { signal: abortControllers[index].signal });
+            }));
+
+            const errors = results
+                .map((result, index) => ({ result, member: this.members[index], cancelled: abortControllers[index].signal.aborted }))
+                .filter(({ result, cancelled }) => result.status === 'rejected' && !(cancelled && result.reason instanceof PlanningCancelledError))
+                .map(({ result, member }) => ({ member, error: (result as PromiseRejectedResult).reason }));
+
+            return { best: pickBest(plans), plans, errors };
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', abortAll);
+        }
+    }
+}
+
+/** Picks the plan with the lowest metric. With the `firstPlanWins` strategy, only the plans of the winner are collected. */
+function pickBest(plans: PortfolioPlan[]): PortfolioPlan | undefined {
+    return plans.reduce<PortfolioPlan | undefined>((best, found) => best === undefined || found.plan.metric < best.plan.metric ? found : best, undefined);
+}
+
+/** Prefixes the output lines of one member by its label and passes the plans to the portfolio. */
+class TaggingResponseHandler implements planner.PlannerResponseHandler {
+
+    private atLineStart = true;
+
+    constructor(private readonly member: PortfolioMember, private readonly parent: planner.PlannerResponseHandler,
+        private readonly onPlan: (plan: Plan) => void) {
+    }
+
+    handleOutput(outputText: string): void {
+        const prefix = `[${this.member.label}] `;
+        const tagged = outputText.replace(/\n(?=.)/g, '\n' + prefix);
+        this.parent.handleOutput((this.atLineStart ? prefix : '') + tagged);
+        this.atLineStart = outputText.endsWith('\n');
+    }
+
+    handlePlan(plan: Plan): void {
+        this.onPlan(plan);
+    }
+
+    providePlannerOptions(context: planner.PlanningRequestContext): string[] {
+        return this.parent.providePlannerOptions(context);
+    }
+}
@@ -0,0 +1,386 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { AddressInfo } from 'net';
+import { URL, URLSearchParams } from 'url';
+import { PackageManifest } from './PackagedPlanners';
+
+/** One scripted HTTP response of the `ReferencePlanningServer`. */
+export interface ScriptedResponse {
+    /** HTTP status code. Default is 200. */
+    statusCode?: number;
+    /** Delay (in milliseconds) before the response is sent. */
+    delay?: number;
+    /** Response body (serialized to JSON). */
+    body?: unknown;
+    /** Additional response headers e.g. `Retry-After` */
+    headers?: http.OutgoingHttpHeaders;
+}
+
+/** Request received by the `ReferencePlanningServer`. */
+export interface RecordedRequest {
+    method: string;
+    /** Path including the query e.g. `/request?async=true` */
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    /** Parsed JSON body, or the form fields (if any) */
+    body?: unknown;
+}
+
+/** Plan as returned by the `/request` service. */
+export interface ReferenceAsyncPlan {
+    makespan: number;
+    metricValue: number;
+    searchPerformanceInfo: {
+        statesEvaluated: number;
+        timeElapsed: string;
+    };
+    format: 'JSON' | 'tasks' | 'xplan';
+    content: string;
+}
+
+/**
+ * Sequence of scripted responses. Responses are consumed one per request, the last one is repeated.
+ */
+class ResponseSequence {
+    private index = 0;
+
+    constructor(private readonly responses: ScriptedResponse[]) {
+        assertNotEmpty(responses);
+    }
+
+    next(): ScriptedResponse {
+        const response = this.responses[Math.min(this.index, this.responses.length - 1)];
+        this.index++;
+        return response;
+    }
+}
+
+interface ScriptedPackage {
+    manifest: PackageManifest;
+    responses: ScriptedResponse[];
+}
+
+/**
+ * In-process stand-in of the planning services for offline testing.
+ * It implements `/solve`, `/request` (incl. `?async=true` with job polling at `/request/{id}`),
+ * `/package` (package manifests), `/package/{name}/{service}`, `/check/{id}`, `/validate` and `/token` (OAuth2 token endpoint).
+ * Responses are scripted by the `on*` and `addPackage` methods. Request bodies may be compressed by `gzip` or `deflate`.
+ */
+export class ReferencePlanningServer {
+
+    private readonly server: http.Server;
+    private solveResponses: ResponseSequence | undefined;
+    private tokenResponses: ResponseSequence | undefined;
+    private validateResponses: ResponseSequence | undefined;
+    private requestResponses: ScriptedResponse[] | undefined;
+    private readonly packages = new Map<string, ScriptedPackage>();
+    /** Asynchronous `/request` jobs and planning-as-a-service `/check` jobs by id. */
+    private readonly jobs = new Map<string, ResponseSequence>();
+    private lastJobId = 0;
+    /** Version of the package manifest list reported in the `ETag`. */
+    private manifestsVersion = 0;
+    private _url: string | undefined;
+
+    /** All requests received so far. */
+    readonly requests: RecordedRequest[] = [];
+    /** Ids of the `/request` jobs terminated by the `DELETE` request. */
+    readonly deletedJobs: string[] = [];
+
+    constructor() {
+        this.server = http.createServer((req, res) => this.handle(req, res));
+    }
+
+    /** Server base url e.g. `http://127.0.0.1:12345` */
+    get url(): string {
+        if (this._url === undefined) {
+            throw new Error('Server is not started.');
+        }
+        return this._url;
+    }
+
+    /**
+     * Starts listening on the localhost.
+     * @param port port number; by default a free port is assigned
+     * @returns server base url
+     */
+    async start(port = 0): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, '127.0.0.1', () => resolve());
+        });
+        this._url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+        return this._url;
+    }
+
+    /** Stops the server and drops the open connections. */
+    async stop(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve, reject) => this.server.close(err => err ? reject(err) : resolve()));
+        this._url = undefined;
+    }
+
+    /**
+     * Scripts the `/solve` responses.
+     * @param responses responses to consecutive requests (the last one is repeated)
+     */
+    onSolve(...responses: ScriptedResponse[]): ReferencePlanningServer {
+        this.solveResponses = new ResponseSequence(responses);
+        return this;
+    }
+
+    /**
+     * Scripts the `/validate` responses.
+     * @param responses responses to consecutive validation requests (the last one is repeated)
+     */
+    onValidate(...responses: ScriptedResponse[]): ReferencePlanningServer {
+        this.validateResponses = new ResponseSequence(responses);
+        return this;
+    }
+
+    /**
+     * Scripts the `/token` responses.
+     * @param responses responses to consecutive token requests (the last one is repeated)
+     */
+    onToken(...responses: ScriptedResponse[]): ReferencePlanningServer {
+        this.tokenResponses = new ResponseSequence(responses);
+        return this;
+    }
+
+    /**
+     * Scripts the `/request` responses. The first response answers the submission.
+     * In the `?async=true` mode, the submission response gets the job `id` and the other responses answer the polls of the job.
+     * @param responses responses to the submission and the consecutive job polls (the last one is repeated)
+     */
+    onRequest(...responses: ScriptedResponse[]): ReferencePlanningServer {
+        assertNotEmpty(responses);
+        this.requestResponses = responses;
+        return this;
+    }
+
+    /**
+     * Adds planner package to the `/package` manifest list.
+     * @param manifest package manifest
+     * @param responses responses of the `/check/{id}` url returned upon job submission (the last one is repeated)
+     */
+    addPackage(manifest: PackageManifest, ...responses: ScriptedResponse[]): ReferencePlanningServer {
+        if (!manifest.package_name) {
+            throw new Error(`Package manifest must have the 'package_name'.`);
+        }
+        assertNotEmpty(responses);
+        this.packages.set(manifest.package_name, { manifest, responses });
+        this.manifestsVersion++;
+        return this;
+    }
+
+    /**
+     * Creates the `/solve` response with the plan.
+     * @param plan plan steps
+     * @param output planner output
+     */
+    static solveResult(plan: { name: string, time?: number, duration?: number }[], output = ''): ScriptedResponse {
+        return { body: { status: 'ok', result: { output, plan } } };
+    }
+
+    /**
+     * Creates the `/request` response.
+     * @param status planner status
+     * @param plans plans found so far
+     * @param output cumulative planner output
+     * @param errorMessage error message (for the `FAILED` status)
+     */
+    static requestStatus(status: 'NOT_INITIALIZED' | 'INITIATING' | 'SEARCHING_INITIAL_PLAN' | 'SEARCHING_BETTER_PLAN' | 'STOPPED' | 'FAILED',
+        plans: ReferenceAsyncPlan[] = [], output = '', errorMessage?: string): ScriptedResponse {
+        const error = errorMessage !== undefined ? { message: errorMessage } : undefined;
+        return { body: { status: { status, error }, plans, output } };
+    }
+
+    /**
+     * Creates plan to include in the `/request` response.
+     * @param content plan in the given format
+     * @param format plan format
+     * @param makespan plan makespan
+     * @param metricValue plan metric value
+     */
+    static asyncPlan(content: string, format: 'JSON' | 'tasks' | 'xplan' = 'JSON', makespan = 0, metricValue = 0): ReferenceAsyncPlan {
+        return { makespan, metricValue, searchPerformanceInfo: { statesEvaluated: 1, timeElapsed: '10' }, format, content };
+    }
+
+    /** Creates the pending planning-as-a-service `/check` response. */
+    static packagePending(): ScriptedResponse {
+        return { body: { status: 'PENDING' } };
+    }
+
+    /**
+     * Creates the planning-as-a-service `/check` response with the planner output files.
+     * @param output planner output files e.g. `{ plan: '(a)\n' }` or `{ 'sas_plan.1': '...', 'sas_plan.2': '...' }`
+     * @param stdout planner standard output
+     */
+    static packageResult(output: { [fileName: string]: string }, stdout = ''): ScriptedResponse {
+        return { body: { status: 'ok', result: { output, stdout, stderr: '', error: '' } } };
+    }
+
+    /**
+     * Creates the `/validate` response.
+     * @param valid plan validity
+     * @param details failing step, unsatisfied conditions, metric and report
+     */
+    static validationResult(valid: boolean, details: { failingStep?: number, unsatisfiedPreconditions?: unknown[], unsatisfiedGoals?: string[],
+        metric?: number, output?: string } = {}): ScriptedResponse {
+        return { body: { valid, ...details } };
+    }
+
+    /**
+     * Creates the OAuth2 `/token` response.
+     * @param accessToken access token
+     * @param expiresIn token lifetime in seconds
+     */
+    static token(accessToken: string, expiresIn = 3600): ScriptedResponse {
+        return { body: { access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn } };
+    }
+
+    /**
+     * Creates the error response.
+     * @param statusCode HTTP status code
+     * @param body response body
+     */
+    static httpError(statusCode: number, body: unknown = { error: `Status ${statusCode}` }): ScriptedResponse {
+        return { statusCode, body };
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            const body = await readBody(req);
+            const method = req.method ?? 'GET';
+            const requestUrl = req.url ?? '/';
+            this.requests.push({ method, url: requestUrl, headers: req.headers, body });
+
+            const url = new URL(requestUrl, 'http://localhost');
+            const segments = url.pathname.split('/').filter(segment => segment.length > 0);
+
+            const response = this.route(method, segments, url.searchParams, req.headers);
+            await send(res, response);
+        } catch (err: unknown) {
+            await send(res, { statusCode: 500, body: { error: String(err) } });
+        }
+    }
+
+    private route(method: string, segments: string[], query: URLSearchParams, headers: http.IncomingHttpHeaders): ScriptedResponse {
+        const [resource, ...rest] = segments;
+        switch (resource) {
+            case 'solve':
+                return method === 'POST' && this.solveResponses ? this.solveResponses.next() : notFound();
+            case 'request':
+                return this.routeRequest(method, rest, query);
+            case 'package':
+                return this.routePackage(method, rest, headers);
+            case 'validate':
+                return method === 'POST' && this.validateResponses ? this.validateResponses.next() : notFound();
+            case 'token':
+                return method === 'POST' && this.tokenResponses ? this.tokenResponses.next() : notFound();
+            case 'check': {
+                const job = rest.length === 1 && this.jobs.get('check/' + rest[0]);
+                return job ? job.next() : notFound();
+            }
+            default:
+                return notFound();
+        }
+    }
+
+    private routeRequest(method: string, rest: string[], query: URLSearchParams): ScriptedResponse {
+        if (!this.requestResponses) {
+            return notFound();
+        }
+        if (rest.length === 0 && method === 'POST') {
+            const [submission, ...polls] = this.requestResponses;
+            if (query.get('async') !== 'true') {
+                return submission;
+            }
+            const id = this.createJobId();
+            this.jobs.set('request/' + id, new ResponseSequence(polls.length > 0 ? polls : [submission]));
+            return { ...submission, body: Object.assign({ id }, submission.body) };
+        } else if (rest.length === 1) {
+            const job = this.jobs.get('request/' + rest[0]);
+            if (!job) {
+                return notFound();
+            } else if (method === 'DELETE') {
+                this.jobs.delete('request/' + rest[0]);
+                this.deletedJobs.push(rest[0]);
+                return { statusCode: 204 };
+            } else {
+                return job.next();
+            }
+        }
+        return notFound();
+    }
+
+    private routePackage(method: string, rest: string[], headers: http.IncomingHttpHeaders): ScriptedResponse {
+        if (rest.length === 0 && method === 'GET') {
+            const etag = `"manifests-${this.manifestsVersion}"`;
+            if (headers['if-none-match'] === etag) {
+                return { statusCode: 304, headers: { ETag: etag } };
+            }
+            return { body: [...this.packages.values()].map(scriptedPackage => scriptedPackage.manifest), headers: { ETag: etag } };
+        } else if (rest.length === 2 && method === 'POST') {
+            const scriptedPackage = this.packages.get(rest[0]);
+            if (!scriptedPackage || !scriptedPackage.manifest.endpoint.services[rest[1]]) {
+                return notFound();
+            }
+            const id = this.createJobId();
+            this.jobs.set('check/' + id, new ResponseSequence(scriptedPackage.responses));
+            return { body: { result: `/check/${id}?external=True` } };
+        }
+        return notFound();
+    }
+
+    private createJobId(): string {
+        return `${++this.lastJobId}`;
+    }
+}
+
+function assertNotEmpty(responses: ScriptedResponse[]): void {
+    if (responses.length === 0) {
+        throw new Error('At least one scripted response is required.');
+    }
+}
+
+function notFound(): ScriptedResponse {
+    return { statusCode: 404, body: { error: 'Not found' } };
+}
+
+/** Reads the JSON body, or the form fields of the `application/x-www-form-urlencoded` body. */
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+    let rawData = '';
+    const encoding = req.headers['content-encoding'];
+    const body: Readable = encoding === 'gzip' ? req.pipe(zlib.createGunzip()) : encoding === 'deflate' ? req.pipe(zlib.createInflate()) : req;
+    body.setEncoding('utf8');
+    for await (const chunk of body) {
+        rawData += chunk;
+    }
+    if (rawData.length === 0) {
+        return undefined;
+    } else if (req.headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+        return Object.fromEntries(new URLSearchParams(rawData));
+    } else {
+        return JSON.parse(rawData);
+    }
+}
+
+async function send(res: http.ServerResponse, response: ScriptedResponse): Promise<void> {
+    if (response.delay) {
+        await new Promise(resolve => setTimeout(resolve, response.delay));
+    }
+    if (response.body === undefined) {
+        res.writeHead(response.statusCode ?? 200, response.headers);
+        res.end();
+    } else {
+        res.writeHead(response.statusCode ?? 200, Object.assign({ 'Content-Type': 'application/json' }, response.headers));
+        res.end(JSON.stringify(response.body));
+    }
+}
@@ -0,0 +1,125 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { sleep } from './asyncUtils';
+import { HttpStatusError } from './errors';
+
+/** Controls re-sending of requests that failed for a transient reason (e.g. the service is overloaded). */
+export interface RetryPolicy {
+    /** Maximum number of attempts including the first one. */
+    maxAttempts: number;
+    /** HTTP status codes that are considered transient. */
+    statusCodes: number[];
+    /** Socket error codes that are considered transient. */
+    errorCodes: string[];
+    /** Delay (in milliseconds) before the first retry. */
+    initialDelay: number;
+    /** Factor by which the delay grows after each retry. */
+    backoffFactor: number;
+    /** Upper bound of the delay (in milliseconds) incl. the delay requested by the `Retry-After` header. */
+    maxDelay: number;
+    /** Random part of the delay as a fraction of the delay (0 for no jitter). */
+    jitter: number;
+    /** Retries the `statusCodes` only if the response carries the `Retry-After` header i.e. the service declined to process the request. */
+    retryAfterRequired?: boolean;
+    /** Notified before each retry e.g. to report it to the user. */
+    onRetry?: (event: RetryEvent) => void;
+}
+
+/** Retry of a failed attempt. */
+export interface RetryEvent {
+    /** Number of the failed attempt (starting from 1). */
+    attempt: number;
+    /** Error of the failed attempt. */
+    error: unknown;
+    /** Delay (in milliseconds) before the next attempt. */
+    delay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    statusCodes: [429, 502, 503, 504],
+    errorCodes: ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'],
+    initialDelay: 500,
+    backoffFactor: 2,
+    maxDelay: 30000,
+    jitter: 0.2,
+};
+
+/** Status codes, with which the service declines to process the request, so it is safe to re-send even a non-idempotent request. */
+const DECLINED_STATUS_CODES = [429, 503];
+
+/**
+ * Restricts the policy to the retries that cannot repeat the effect of a non-idempotent request (e.g. a `POST` creating a planning job).
+ * Only the `429` and `503` responses with the `Retry-After` header are retried. Connection errors are not, because the service
+ * may have processed the request before the connection failed.
+ * @param policy retry policy; `false` to opt out of retries
+ * @returns retry policy for the non-idempotent requests
+ */
+export function toNonIdempotentRetryPolicy(policy: Partial<RetryPolicy> | false | undefined): Partial<RetryPolicy> | false {
+    if (policy === false) {
+        return false;
+    }
+    const statusCodes = (policy?.statusCodes ?? DEFAULT_RETRY_POLICY.statusCodes).filter(code => DECLINED_STATUS_CODES.includes(code));
+    return { ...policy, statusCodes, errorCodes: [], retryAfterRequired: true };
+}
+
+/**
+ * Runs the operation and repeats it, while it fails for a transient reason.
+ * @param operation operation to run e.g. HTTP request
+ * @param policy retry policy (missing values are taken from `DEFAULT_RETRY_POLICY`); `false` to run the operation only once
+ * @param signal cancels the waiting between attempts
+ * @returns result of the first successful attempt
+ * @throws error of the last attempt
+ */
+export async function retry<T>(operation: () => Promise<T>, policy: Partial<RetryPolicy> | false | undefined, signal?: AbortSignal): Promise<T> {
+    if (policy === false) {
+        return await operation();
+    }
+    const effectivePolicy: RetryPolicy = Object.assign({}, DEFAULT_RETRY_POLICY, policy);
+    let delay = effectivePolicy.initialDelay;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err: unknown) {
+            if (attempt >= effectivePolicy.maxAttempts || signal?.aborted || !isTransient(err, effectivePolicy)) {
+                throw err;
+            }
+            const retryAfter = err instanceof HttpStatusError ? parseRetryAfter(err.headers['retry-after']) : undefined;
+            const jitter = delay * effectivePolicy.jitter * Math.random();
+            const wait = Math.min(retryAfter ?? delay + jitter, effectivePolicy.maxDelay);
+            effectivePolicy.onRetry?.({ attempt, error: err, delay: wait });
+            await sleep(wait, signal);
+            delay *= effectivePolicy.backoffFactor;
+        }
+    }
+}
+
+function isTransient(err: unknown, policy: RetryPolicy): boolean {
+    if (err instanceof HttpStatusError) {
+        return policy.statusCodes.includes(err.statusCode)
+            && (!policy.retryAfterRequired || parseRetryAfter(err.headers['retry-after']) !== undefined);
+    }
+    const code = (err as NodeJS.ErrnoException)?.code;
+    return code !== undefined && policy.errorCodes.includes(code);
+}
+
+/**
+ * Parses the `Retry-After` header.
+ * @param retryAfter number of seconds or HTTP date
+ * @returns delay in milliseconds, or `undefined` if the header is missing or malformed
+ */
+export function parseRetryAfter(retryAfter: string | string[] | undefined): number | undefined {
+    const value = Array.isArray(retryAfter) ? retryAfter[0] : retryAfter;
+    if (value === undefined || value.trim().length === 0) {
+        return undefined;
+    } else if (/^\d+$/.test(value.trim())) {
+        return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,214 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as http from 'http';
+import { randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
+
+/** Search state reported by the planner. */
+export interface SearchDebuggerState {
+    id: string;
+    parentId?: string;
+    /** Number of actions from the initial state. */
+    g?: number;
+    /** Heuristic value. */
+    h?: number;
+    earliestTime?: number;
+    /** Action leading from the parent state. */
+    actionName?: string;
+    totalMakespan?: number;
+    isDeadEnd?: boolean;
+    helpfulActions?: unknown[];
+    relaxedPlan?: unknown[];
+}
+
+/** Plan reported by the planner. */
+export interface SearchDebuggerPlan {
+    makespan?: number;
+    metricValue?: number;
+    statesEvaluated?: number;
+    /** Plan format e.g. `JSON`, `tasks` or `xplan` */
+    format?: string;
+    content: string;
+}
+
+/** Event received by the `SearchDebuggerReceiver`. */
+export type SearchDebuggerEvent =
+    { type: 'STATES', states: SearchDebuggerState[] } |
+    { type: 'PLAN', plan: SearchDebuggerPlan };
+
+export type SearchDebuggerListener = (event: SearchDebuggerEvent) => void;
+
+/** Callback registration sent to the planning service. */
+export interface SearchDebuggerCallback {
+    type: 'STATES' | 'PLAN';
+    url: string;
+    token: string;
+}
+
+const PATHS: { [path: string]: SearchDebuggerCallback['type'] } = { '/states': 'STATES', '/plan': 'PLAN' };
+/** The callbacks are only accepted from the local host. */
+const LOOPBACK_ADDRESS = '127.0.0.1';
+
+/**
+ * Receives the search debugger callbacks of one planning request on the localhost.
+ * The planner posts the states to `/states` and the plans to `/plan`. Each request must carry the token generated upon `start()`
+ * in the `Authorization: Bearer` header or in the `token` field of the payload.
+ */
+export class SearchDebuggerReceiver {
+
+    private readonly server: http.Server;
+    private _port: number | undefined;
+    /** Address the receiver is bound to, formatted for the url host (IPv6 in brackets). */
+    private host: string | undefined;
+    private _token: string | undefined;
+
+    /**
+     * @param listener receives the parsed events
+     */
+    constructor(private readonly listener: SearchDebuggerListener) {
+        this.server = http.createServer((req, res) => this.handle(req, res));
+    }
+
+    /** Port the receiver listens on. */
+    get port(): number | undefined {
+        return this._port;
+    }
+
+    /** Token the callbacks must carry. */
+    get token(): string | undefined {
+        return this._token;
+    }
+
+    /**
+     * Starts listening on the localhost and generates a new token.
+     * @param port port number; by default a free port is assigned
+     */
+    async start(port = 0): Promise<void> {
+        this._token = randomBytes(16).toString('hex');
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, LOOPBACK_ADDRESS, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        const address = this.server.address() as AddressInfo;
+        this._port = address.port;
+        this.host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    }
+
+    /** Stops listening and drops the open connections. */
+    async stop(): Promise<void> {
+        if (!this.server.listening) { return; }
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve, reject) => this.server.close(err => err ? reject(err) : resolve()));
+        this._port = undefined;
+        this.host = undefined;
+        this._token = undefined;
+    }
+
+    /** Callback registrations to include in the planning request. */
+    createCallbacks(): SearchDebuggerCallback[] {
+        if (this._port === undefined || this.host === undefined || this._token === undefined) {
+            throw new Error('Search debugger receiver is not started.');
+        }
+        return Object.entries(PATHS)
+            .map(([path, type]) => ({ type, url: `http://${this.host}:${this._port}${path}`, token: this._token as string }));
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const type = PATHS[new URL(req.url ?? '/', 'http://localhost').pathname];
+        if (req.method !== 'POST' || type === undefined) {
+            return reply(res, 404);
+        }
+
+        let payload: unknown;
+        try {
+            payload = await readJson(req);
+        } catch (err: unknown) {
+            return reply(res, 400, `Invalid JSON: ${(err as Error).message ?? err}`);
+        }
+
+        const bearer = req.headers['authorization']?.replace(/^Bearer\s+/i, '');
+        const token = bearer ?? (payload as { token?: unknown })?.token;
+        if (token !== this._token) {
+            return reply(res, 401);
+        }
+
+        const event = type === 'STATES' ? toStatesEvent(payload) : toPlanEvent(payload);
+        if (!event) {
+            return reply(res, 400, `Unexpected ${type} payload.`);
+        }
+        try {
+            this.listener(event);
+        } catch (err: unknown) {
+            console.error(`Search debugger listener failed: ${err}`);
+        }
+        reply(res, 200);
+    }
+}
+
+function reply(res: http.ServerResponse, statusCode: number, message?: string): void {
+    res.writeHead(statusCode, { 'Content-Type': 'text/plain' });
+    res.end(message ?? http.STATUS_CODES[statusCode]);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+    let rawData = '';
+    req.setEncoding('utf8');
+    for await (const chunk of req) {
+        rawData += chunk;
+    }
+    return JSON.parse(rawData);
+}
+
+/** Accepts a single state, an array of states or `{ states: [...] }`. */
+function toStatesEvent(payload: unknown): SearchDebuggerEvent | undefined {
+    const rawStates = Array.isArray(payload) ? payload : (payload as { states?: unknown })?.states ?? [payload];
+    if (!Array.isArray(rawStates)) { return undefined; }
+    const states = rawStates.map(toState);
+    return states.every(state => state !== undefined) ? { type: 'STATES', states: states as SearchDebuggerState[] } : undefined;
+}
+
+function toState(raw: unknown): SearchDebuggerState | undefined {
+    if (typeof raw !== 'object' || raw === null) { return undefined; }
+    const state = raw as { [key: string]: unknown };
+    if (state.id === undefined || state.id === null) { return undefined; }
+    return {
+        id: String(state.id),
+        parentId: state.parentId !== undefined && state.parentId !== null ? String(state.parentId) : undefined,
+        g: asNumber(state.g),
+        h: asNumber(state.h),
+        earliestTime: asNumber(state.earliestTime),
+        actionName: typeof state.actionName === 'string' ? state.actionName : undefined,
+        totalMakespan: asNumber(state.totalMakespan),
+        isDeadEnd: typeof state.isDeadEnd === 'boolean' ? state.isDeadEnd : undefined,
+        helpfulActions: Array.isArray(state.helpfulActions) ? state.helpfulActions : undefined,
+        relaxedPlan: Array.isArray(state.relaxedPlan) ? state.relaxedPlan : undefined,
+    };
+}
+
+/** Accepts the plan in the `/request` response plan structure. */
+function toPlanEvent(payload: unknown): SearchDebuggerEvent | undefined {
+    const plan = payload as { [key: string]: unknown };
+    if (typeof plan?.content !== 'string') { return undefined; }
+    const searchPerformanceInfo = plan.searchPerformanceInfo as { statesEvaluated?: unknown } | undefined;
+    return {
+        type: 'PLAN',
+        plan: {
+            makespan: asNumber(plan.makespan),
+            metricValue: asNumber(plan.metricValue),
+            statesEvaluated: asNumber(searchPerformanceInfo?.statesEvaluated),
+            format: typeof plan.format === 'string' ? plan.format : undefined,
+            content: plan.content,
+        }
+    };
+}
+
+function asNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
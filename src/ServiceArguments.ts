@@ -0,0 +1,168 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { EndpointService, EndpointServiceArgument } from './PackagedPlanners';
+import type { PackagedServerRequestArgs } from './PlannerPackagePreviewService';
+
+/** Arguments the client populates from the domain and problem files. */
+const PDDL_FILE_ARGUMENTS = ['domain', 'problem'];
+
+/** Problem found in the planner package service arguments. */
+export interface ServiceArgumentProblem {
+    /** Argument name. */
+    argument: string;
+    message: string;
+}
+
+/** Result of the service argument validation. */
+export interface ServiceArgumentsValidation {
+    /** Argument values including the defaults of the arguments that were not configured. */
+    args: PackagedServerRequestArgs;
+    problems: ServiceArgumentProblem[];
+}
+
+/**
+ * Checks the configured argument values against the argument list declared by the service manifest.
+ * Missing arguments are populated from their `default` values.
+ * The `domain` and `problem` arguments are not checked, because they are populated by the client.
+ * @param service service as declared in the package manifest
+ * @param configuration run configuration (arguments not declared by the service are ignored)
+ * @returns argument values (with defaults) and problems found
+ */
+export function validateServiceArguments(service: EndpointService, configuration: object): ServiceArgumentsValidation {
+    const values = configuration as { [key: string]: unknown };
+    const args: PackagedServerRequestArgs = {};
+    const problems: ServiceArgumentProblem[] = [];
+
+    service.args
+        .filter(arg => !PDDL_FILE_ARGUMENTS.includes(arg.name))
+        .forEach(arg => {
+            const value = values[arg.name] ?? arg.default;
+            if (value === undefined || value === null) {
+                problems.push({ argument: arg.name, message: `Missing mandatory argument '${arg.name}' (${arg.description}).` });
+                return;
+            }
+
+            const converted = convertArgumentValue(arg, value);
+            if (converted.problem !== undefined) {
+                problems.push({ argument: arg.name, message: converted.problem });
+            } else {
+                args[arg.name] = converted.value;
+            }
+        });
+
+    return { args, problems };
+}
+
+function isValueOfType(arg: EndpointServiceArgument, value: unknown): boolean {
+    switch (arg.type) {
+        case "int":
+            return typeof value === 'number' && Number.isInteger(value);
+        case "categorical":
+            return (arg.choices ?? []).some(choice => choice.value === value);
+        case "file":
+            return typeof value === 'string';
+        default:
+            return ['string', 'number', 'boolean'].includes(typeof value);
+    }
+}
+
+type ConvertedValue = { value: string | number | boolean, problem?: undefined } | { problem: string };
+
+/**
+ * Converts the configured value to the argument type.
+ * @returns converted value, or the problem description, if the value cannot be converted
+ */
+function convertArgumentValue(arg: EndpointServiceArgument, value: unknown): ConvertedValue {
+    if (isValueOfType(arg, value)) {
+        return { value: value as string | number | boolean };
+    }
+    switch (arg.type) {
+        case "int":
+            if (typeof value === 'string' && /^[+-]?\d+$/.test(value.trim())) {
+                return { value: parseInt(value, 10) };
+            }
+            return problem(`Argument '${arg.name}' must be an integer, but was: ${JSON.stringify(value)}.`);
+        case "categorical": {
+            // values configured via text inputs arrive as strings
+            const choice = (arg.choices ?? []).find(choice => String(choice.value) === String(value));
+            if (choice) {
+                return { value: choice.value };
+            }
+            const validValues = (arg.choices ?? []).map(choice => JSON.stringify(choice.value)).join(', ');
+            return problem(`Argument '${arg.name}' must be one of ${validValues}, but was: ${JSON.stringify(value)}.`);
+        }
+        case "file":
+            return problem(`Argument '${arg.name}' must be the file content (string), but was: ${JSON.stringify(value)}.`);
+        default:
+            return problem(`Argument '${arg.name}' has unsupported value: ${JSON.stringify(value)}.`);
+    }
+}
+
+function problem(message: string): ConvertedValue {
+    return { problem: message };
+}
+
+/** Subset of the JSON Schema used to describe the service arguments. */
+export interface JsonSchema {
+    $schema?: string;
+    title?: string;
+    description?: string;
+    type?: 'object' | 'string' | 'integer' | 'number' | 'boolean';
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    default?: string | number | boolean;
+    oneOf?: JsonSchema[];
+    const?: string | number | boolean;
+}
+
+/**
+ * Creates JSON Schema of the service arguments, so a UI can render the settings form.
+ * The `domain` and `problem` arguments are not included, because they are populated by the client.
+ * @param service service as declared in the package manifest
+ * @param title schema title e.g. the package and service name
+ */
+export function createServiceArgumentsSchema(service: EndpointService, title?: string): JsonSchema {
+    const properties: { [name: string]: JsonSchema } = {};
+    const required: string[] = [];
+
+    service.args
+        .filter(arg => !PDDL_FILE_ARGUMENTS.includes(arg.name))
+        .forEach(arg => {
+            properties[arg.name] = createArgumentSchema(arg);
+            if (arg.default === undefined) {
+                required.push(arg.name);
+            }
+        });
+
+    return {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: title,
+        type: 'object',
+        properties: properties,
+        required: required,
+    };
+}
+
+function createArgumentSchema(arg: EndpointServiceArgument): JsonSchema {
+    const schema: JsonSchema = {
+        description: arg.description,
+        default: arg.default,
+    };
+    switch (arg.type) {
+        case "int":
+            schema.type = 'integer';
+            break;
+        case "categorical":
+            schema.oneOf = (arg.choices ?? []).map(choice => ({ const: choice.value, title: choice.display_value }));
+            break;
+        case "file":
+        default:
+            schema.type = 'string';
+            break;
+    }
+    return schema;
+}
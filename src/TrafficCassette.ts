@@ -0,0 +1,177 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+import { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import { PlanningServiceError } from './errors';
+
+const REDACTED = '<redacted>';
+/** Header, query parameter, form field and JSON property names, whose values are not written to the cassette. */
+const SECRET_NAME_PATTERN = /authorization|cookie|token|secret|password|api[-_]?key/i;
+
+/** One request/response pair recorded in the `TrafficCassette`. */
+export interface RecordedExchange {
+    request: {
+        method: string;
+        /** Url with the secrets redacted. */
+        url: string;
+        /** Headers with the secrets redacted. */
+        headers: OutgoingHttpHeaders;
+        /** Body with the secrets redacted (if it is a form or JSON). */
+        body?: string;
+    };
+    response: {
+        statusCode: number;
+        statusMessage?: string;
+        headers: IncomingHttpHeaders;
+        /** Body with the secrets redacted (if it is JSON) e.g. the `access_token` of the token endpoint response. */
+        body: string;
+    };
+    /** Time the request was sent (ISO 8601). */
+    startedAt: string;
+    /** Time (in milliseconds) until the whole response was received. */
+    duration: number;
+}
+
+/** Cassette file content. */
+export interface CassetteFile {
+    version: 1;
+    exchanges: RecordedExchange[];
+}
+
+/**
+ * Records the planning service traffic to a JSON file (`record` mode),
+ * or serves the recorded responses instead of the network (`replay` mode).
+ */
+export class TrafficCassette {
+
+    private readonly exchanges: RecordedExchange[];
+    private readonly replayed = new Set<RecordedExchange>();
+    private saving: Promise<void> = Promise.resolve();
+
+    /**
+     * @param mode `record` to write the traffic to the `filePath`, `replay` to serve responses from the cassette
+     * @param filePath cassette file path
+     * @param cassette recorded exchanges (for the `replay` mode)
+     */
+    constructor(readonly mode: 'record' | 'replay', readonly filePath: string, cassette?: CassetteFile) {
+        this.exchanges = cassette?.exchanges ?? [];
+    }
+
+    /**
+     * Creates an empty cassette for recording.
+     * @param filePath file to write to (it is overwritten)
+     */
+    static record(filePath: string): TrafficCassette {
+        return new TrafficCassette('record', filePath);
+    }
+
+    /**
+     * Loads the cassette for replaying.
+     * @param filePath cassette file path
+     */
+    static async replay(filePath: string): Promise<TrafficCassette> {
+        const cassette = JSON.parse(await fs.promises.readFile(filePath, { encoding: 'utf8' })) as CassetteFile;
+        return new TrafficCassette('replay', filePath, cassette);
+    }
+
+    /** Recorded exchanges. */
+    getExchanges(): RecordedExchange[] {
+        return [...this.exchanges];
+    }
+
+    /**
+     * Adds the exchange to the cassette and writes the cassette file.
+     * @param exchange request and response (the secrets are redacted here)
+     */
+    async record(exchange: RecordedExchange): Promise<void> {
+        this.exchanges.push({
+            ...exchange,
+            request: {
+                ...exchange.request,
+                url: redactUrl(exchange.request.url),
+                headers: redactHeaders(exchange.request.headers),
+                body: exchange.request.body !== undefined ? redactBody(exchange.request.body, getContentType(exchange.request.headers)) : undefined,
+            },
+            response: {
+                ...exchange.response,
+                headers: redactHeaders(exchange.response.headers),
+                body: redactBody(exchange.response.body, getContentType(exchange.response.headers)),
+            },
+        });
+        const content: CassetteFile = { version: 1, exchanges: this.exchanges };
+        // serialize the writes, so the file ends up with the latest content
+        this.saving = this.saving.catch(() => undefined).then(() => fs.promises.writeFile(this.filePath, JSON.stringify(content, null, 2), { encoding: 'utf8' }));
+        await this.saving;
+    }
+
+    /**
+     * Finds the first recorded response to the same request, that was not replayed yet.
+     * @param method HTTP method
+     * @param url request url
+     * @throws PlanningServiceError if the cassette has no such response
+     */
+    replay(method: string, url: URL | string): RecordedExchange['response'] {
+        const redactedUrl = redactUrl(url.toString());
+        const exchange = this.exchanges
+            .find(exchange => !this.replayed.has(exchange) && exchange.request.method === method && exchange.request.url === redactedUrl);
+        if (!exchange) {
+            throw new PlanningServiceError(`Cassette ${this.filePath} has no (more) recorded responses to ${method} ${redactedUrl}`,
+                { url: url.toString() });
+        }
+        this.replayed.add(exchange);
+        return exchange.response;
+    }
+}
+
+function redactHeaders<T extends OutgoingHttpHeaders | IncomingHttpHeaders>(headers: T): T {
+    const redacted = Object.assign({}, headers);
+    Object.keys(redacted)
+        .filter(name => SECRET_NAME_PATTERN.test(name))
+        .forEach(name => (redacted as OutgoingHttpHeaders)[name] = REDACTED);
+    return redacted;
+}
+
+function redactUrl(url: string): string {
+    const parsedUrl = new URL(url);
+    [...parsedUrl.searchParams.keys()]
+        .filter(name => SECRET_NAME_PATTERN.test(name))
+        .forEach(name => parsedUrl.searchParams.set(name, REDACTED));
+    if (parsedUrl.password) {
+        parsedUrl.password = REDACTED;
+    }
+    return parsedUrl.toString();
+}
+
+function getContentType(headers: OutgoingHttpHeaders | IncomingHttpHeaders): string | undefined {
+    const name = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+    const value = name !== undefined ? headers[name] : undefined;
+    return value !== undefined ? String(value) : undefined;
+}
+
+/**
+ * Redacts the secret form fields and JSON properties (at any depth) e.g. the OAuth2 `client_secret` and `access_token`.
+ * @param body request or response body
+ * @param contentType body content type
+ * @returns body with the secrets redacted; other content types are returned as they are
+ */
+function redactBody(body: string, contentType: string | undefined): string {
+    if (contentType?.startsWith('application/x-www-form-urlencoded')) {
+        const form = new URLSearchParams(body);
+        [...form.keys()]
+            .filter(name => SECRET_NAME_PATTERN.test(name))
+            .forEach(name => form.set(name, REDACTED));
+        return form.toString();
+    } else if (contentType?.startsWith('application/json')) {
+        try {
+            return JSON.stringify(JSON.parse(body), (name, value) => SECRET_NAME_PATTERN.test(name) ? REDACTED : value);
+        } catch {
+            // malformed JSON cannot be redacted selectively
+            return REDACTED;
+        }
+    }
+    return body;
+}
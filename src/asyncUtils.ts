@@ -0,0 +1,31 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { PlanningCancelledError } from './errors';
+
+/**
+ * Waits for the given time.
+ * @param ms milliseconds to wait
+ * @param signal cancels the wait
+ * @throws PlanningCancelledError when the `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new PlanningCancelledError());
+            return;
+        }
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(new PlanningCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
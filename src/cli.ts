@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { URL } from 'url';
+import { URI } from 'vscode-uri';
+import { DomainInfo, parser, Plan, planner, ProblemInfo } from 'pddl-workspace';
+import { PlannerService, ServerRequest, ServerResponse } from './PlannerService';
+import { PlannerSyncService } from './PlannerSyncService';
+import { AsyncServiceConfiguration, PlannerAsyncService } from './PlannerAsyncService';
+import { PackagedServiceConfiguration, PlannerPackagePreviewService } from './PlannerPackagePreviewService';
+import { EndpointService, PackagedPlanners, PackageManifest } from './PackagedPlanners';
+import { PlannerServiceFactory } from './PlannerServiceFactory';
+import { BearerTokenAuthentication } from './AuthenticationProvider';
+import { HttpClientOptions } from './httpUtils';
+import { JsonPlanStep } from './PlanDecoderRegistry';
+import { PlanningCancelledError, PlanningTimeoutError } from './errors';
+import { Duration, toSeconds } from './durationUtils';
+
+/** Exit codes of the command-line client. */
+export enum ExitCode {
+    /** At least one plan was found. */
+    Success = 0,
+    /** The service or the client failed. */
+    Error = 1,
+    /** The service finished without a plan. */
+    NoPlan = 2,
+    /** The service did not finish within the timeout. */
+    Timeout = 3,
+    /** Invalid command-line arguments. */
+    InvalidArguments = 4,
+    /** Cancelled by the user (Ctrl+C). */
+    Cancelled = 130,
+}
+
+/** Console streams of the command-line client. */
+export interface CliConsole {
+    out(text: string): void;
+    err(text: string): void;
+}
+
+const PROCESS_CONSOLE: CliConsole = {
+    out: text => process.stdout.write(text),
+    err: text => process.stderr.write(text),
+};
+
+const USAGE = `Usage:
+  pddl-planning-service <domain.pddl> <problem.pddl> --url <service url> [options]
+  pddl-planning-service --list-packages --url <package list url>
+
+Options:
+  --url <url>              planning service url e.g. http://localhost:8080/solve, .../request, .../package/lama-first/solve
+  --sync | --async | --package
+                           service protocol; by default, it is inferred from the url
+  --arg <key=value>        service argument (repeatable); sent as package service arguments,
+                           async service configuration, or sync service url query
+  --timeout <duration>     planning timeout in seconds, or ISO 8601 duration e.g. PT5M
+  --token <token>          bearer token sent to the service
+  --out-dir <directory>    directory the plans are written to (default is the current directory)
+  --plan-format <ipc|json> plan file format (default is ipc)
+  --list-packages          lists the planner packages available at the url
+  --help                   prints this help
+
+Exit codes: 0 plan found, 1 error, 2 no plan, 3 timeout, 4 invalid arguments, 130 cancelled.
+`;
+
+type PlanFileFormat = 'ipc' | 'json';
+
+/** Parsed command-line arguments. */
+interface CliArguments {
+    url: string;
+    kind?: 'sync' | 'async' | 'package';
+    args: Record<string, string>;
+    timeout?: Duration;
+    token?: string;
+    outDir: string;
+    planFormat: PlanFileFormat;
+    listPackages: boolean;
+    domainPath?: string;
+    problemPath?: string;
+}
+
+/** Invalid command-line arguments. */
+class UsageError extends Error {
+}
+
+/**
+ * Runs the command-line client.
+ * @param argv command-line arguments (without the node executable and the script)
+ * @param io console streams
+ * @param signal cancels the planning
+ * @returns exit code
+ */
+export async function main(argv: string[], io: CliConsole = PROCESS_CONSOLE, signal?: AbortSignal): Promise<ExitCode> {
+    let args: CliArguments | undefined;
+    try {
+        args = parseCliArguments(argv);
+    } catch (err: unknown) {
+        io.err(`${(err as Error).message}\n\n${USAGE}`);
+        return ExitCode.InvalidArguments;
+    }
+    if (args === undefined) {
+        io.out(USAGE);
+        return ExitCode.Success;
+    }
+
+    const httpOptions: HttpClientOptions = args.token !== undefined ? { authentication: new BearerTokenAuthentication(() => args?.token) } : {};
+    try {
+        if (args.listPackages) {
+            const manifests = await new PackagedPlanners(new URL(args.url), httpOptions).getManifests();
+            manifests.forEach(manifest => io.out(formatManifest(manifest)));
+            return ExitCode.Success;
+        }
+        return await plan(args, httpOptions, io, signal);
+    } catch (err: unknown) {
+        if (err instanceof PlanningTimeoutError) {
+            io.err(`Timeout: ${err.message}\n`);
+            return ExitCode.Timeout;
+        } else if (err instanceof PlanningCancelledError) {
+            io.err(`Cancelled.\n`);
+            return ExitCode.Cancelled;
+        } else if (err instanceof UsageError) {
+            io.err(`${err.message}\n`);
+            return ExitCode.InvalidArguments;
+        }
+        io.err(`Error: ${(err as Error).message ?? err}\n`);
+        return ExitCode.Error;
+    }
+}
+
+/**
+ * Parses the command-line arguments.
+ * @returns parsed arguments, or `undefined` if the help was requested
+ * @throws UsageError if the arguments are invalid
+ */
+function parseCliArguments(argv: string[]): CliArguments | undefined {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                url: { type: 'string' },
+                sync: { type: 'boolean' },
+                async: { type: 'boolean' },
+                package: { type: 'boolean' },
+                arg: { type: 'string', multiple: true },
+                timeout: { type: 'string' },
+                token: { type: 'string' },
+                'out-dir': { type: 'string' },
+                'plan-format': { type: 'string' },
+                'list-packages': { type: 'boolean' },
+                help: { type: 'boolean' },
+            },
+        });
+    } catch (err: unknown) {
+        throw new UsageError((err as Error).message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) { return undefined; }
+
+    if (!values.url) { throw new UsageError('Missing --url.'); }
+    const kinds = (['sync', 'async', 'package'] as const).filter(kind => values[kind]);
+    if (kinds.length > 1) { throw new UsageError(`Only one of --sync, --async and --package may be used.`); }
+
+    const planFormat = (values['plan-format'] ?? 'ipc').toLowerCase();
+    if (planFormat !== 'ipc' && planFormat !== 'json') { throw new UsageError(`Unsupported plan format: ${planFormat}. Expected ipc or json.`); }
+
+    const timeout = values.timeout !== undefined && /^[\d.]+$/.test(values.timeout) ? Number(values.timeout) : values.timeout;
+    if (timeout !== undefined && !(toSecondsOrNaN(timeout) > 0)) { throw new UsageError(`Invalid timeout: ${values.timeout}`); }
+
+    const args: Record<string, string> = {};
+    for (const arg of values.arg ?? []) {
+        const separator = arg.indexOf('=');
+        if (separator < 1) { throw new UsageError(`Invalid argument ${arg}. Expected key=value.`); }
+        args[arg.substring(0, separator)] = arg.substring(separator + 1);
+    }
+
+    const listPackages = values['list-packages'] ?? false;
+    if (!listPackages && positionals.length !== 2) { throw new UsageError('Expected the domain and problem file paths.'); }
+
+    return {
+        url: values.url, kind: kinds[0], args, timeout, token: values.token, outDir: values['out-dir'] ?? '.', planFormat, listPackages,
+        domainPath: positionals[0], problemPath: positionals[1],
+    };
+}
+
+function toSecondsOrNaN(duration: Duration): number {
+    try {
+        return toSeconds(duration);
+    } catch {
+        return NaN;
+    }
+}
+
+async function plan(args: CliArguments, httpOptions: HttpClientOptions, io: CliConsole, signal?: AbortSignal): Promise<ExitCode> {
+    if (args.domainPath === undefined || args.problemPath === undefined) {
+        throw new UsageError('Expected the domain and problem file paths.');
+    }
+    const [domain, problem] = await readDomainAndProblem(args.domainPath, args.problemPath);
+    const service = await createService(args, httpOptions);
+
+    const planParser = new parser.PddlPlannerOutputParser(domain, problem, { epsilon: 1e-3, minimumPlansExpected: 0 });
+    const handler = new CliResponseHandler(io, args.outDir, problem.name, args.planFormat);
+    const plans = await service.plan(domain, problem, planParser, handler, { signal });
+
+    if (plans.length === 0) {
+        io.err('No plan found.\n');
+        return ExitCode.NoPlan;
+    }
+    return ExitCode.Success;
+}
+
+async function readDomainAndProblem(domainPath: string, problemPath: string): Promise<[DomainInfo, ProblemInfo]> {
+    const domainText = await fs.promises.readFile(domainPath, { encoding: 'utf8' });
+    const problemText = await fs.promises.readFile(problemPath, { encoding: 'utf8' });
+    const domain = parser.PddlDomainParser.parseText(domainText, URI.file(path.resolve(domainPath)));
+    if (!domain) { throw new UsageError(`Not a PDDL domain: ${domainPath}`); }
+    const problem = await parser.PddlProblemParser.parseText(problemText, URI.file(path.resolve(problemPath)));
+    if (!problem) { throw new UsageError(`Not a PDDL problem: ${problemPath}`); }
+    return [domain, problem];
+}
+
+const PROVIDER_CONFIGURATION: planner.ProviderConfiguration = {
+    configuration: { kind: 'pddl-planning-service-client', title: 'PDDL planning service command-line client', canConfigure: false },
+};
+
+/**
+ * Creates the service client.
+ * @param args command-line arguments
+ * @param httpOptions HTTP options of the client
+ * @param endpointService package service declaration (from the package manifest) validating the arguments
+ */
+async function createService(args: CliArguments, httpOptions: HttpClientOptions, endpointService?: EndpointService): Promise<PlannerService<ServerRequest, ServerResponse>> {
+    const query = new URLSearchParams(args.args).toString();
+    let service: PlannerService<ServerRequest, ServerResponse>;
+    switch (args.kind) {
+        case 'sync':
+            service = new PlannerSyncService(args.url, { options: query || undefined, timeout: args.timeout }, PROVIDER_CONFIGURATION);
+            break;
+        case 'async': {
+            const configuration: AsyncServiceConfiguration = Object.assign(
+                PlannerAsyncService.createDefaultConfiguration(args.timeout ?? PlannerAsyncService.DEFAULT_TIMEOUT), parseConfigurationValues(args.args));
+            service = new PlannerAsyncService(args.url, configuration, PROVIDER_CONFIGURATION);
+            break;
+        }
+        case 'package': {
+            // the service declaration converts the argument values to the declared types
+            const declaration = endpointService ?? await findPackageService(args.url, httpOptions);
+            const configuration: PackagedServiceConfiguration = Object.assign({ timeout: args.timeout, service: declaration },
+                declaration ? args.args : parseConfigurationValues(args.args));
+            service = new PlannerPackagePreviewService(args.url, configuration, PROVIDER_CONFIGURATION);
+            break;
+        }
+        default: {
+            const detected = await new PlannerServiceFactory(PROVIDER_CONFIGURATION, httpOptions).createServices(args.url);
+            if (detected.length !== 1) {
+                throw new UsageError(`The url ${args.url} offers ${detected.length} services. Select one of them:\n` +
+                    detected.map(d => `  ${d.url}\n`).join(''));
+            }
+            const [{ kind, url, manifest, serviceName }] = detected;
+            const detectedService = serviceName !== undefined ? manifest?.endpoint?.services?.[serviceName] : undefined;
+            return createService({ ...args, url, kind: kind.toLowerCase() as CliArguments['kind'] }, httpOptions, detectedService);
+        }
+    }
+    service.httpOptions = httpOptions;
+    return service;
+}
+
+/**
+ * Finds the package service declaration in the manifests listed by the planning-as-a-service root.
+ * @param url package service url e.g. `http://localhost:5001/package/lama-first/solve`
+ * @param httpOptions HTTP options of the client
+ * @returns service declaration, or `undefined` if the root does not list the package service
+ */
+async function findPackageService(url: string, httpOptions: HttpClientOptions): Promise<EndpointService | undefined> {
+    const serviceUrl = new URL(url);
+    const segments = serviceUrl.pathname.replace(/\/$/, '').split('/');
+    const [packageName, serviceName] = segments.slice(-2).map(decodeURIComponent);
+    let manifests: unknown;
+    try {
+        manifests = await new PackagedPlanners(new URL(segments.slice(0, -2).join('/'), serviceUrl), httpOptions).getManifests();
+    } catch {
+        // the arguments are sent without validation
+        return undefined;
+    }
+    return Array.isArray(manifests) ?
+        (manifests as PackageManifest[]).find(manifest => manifest.package_name === packageName)?.endpoint?.services?.[serviceName] : undefined;
+}
+
+/** Converts the `true`/`false` and numeric argument values, so e.g. `asyncMode=false` is not sent as a (truthy) string. */
+function parseConfigurationValues(args: Record<string, string>): Record<string, string | number | boolean> {
+    return Object.fromEntries(Object.entries(args).map(([key, value]) => {
+        if (value === 'true' || value === 'false') {
+            return [key, value === 'true'];
+        } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+            return [key, Number(value)];
+        }
+        return [key, value];
+    }));
+}
+
+function formatManifest(manifest: PackageManifest): string {
+    const services = Object.entries(manifest.endpoint?.services ?? {})
+        .map(([name, service]) => `    ${name}: ${(service.args ?? []).map(arg => arg.default !== undefined ? `${arg.name}=${arg.default}` : arg.name).join(', ')}\n`);
+    const status = manifest.runnable ? '' : ' (not runnable)';
+    return `${manifest.package_name} - ${manifest.name}${status}: ${manifest.description ?? ''}\n${services.join('')}`;
+}
+
+/** Streams the output to the console and writes each plan to a file. */
+class CliResponseHandler implements planner.PlannerResponseHandler {
+
+    private planCount = 0;
+
+    constructor(private readonly io: CliConsole, private readonly outDir: string, private readonly problemName: string,
+        private readonly planFormat: PlanFileFormat) {
+    }
+
+    handleOutput(outputText: string): void {
+        this.io.out(outputText);
+    }
+
+    handlePlan(plan: Plan): void {
+        const fileName = `${this.problemName}.${++this.planCount}.${this.planFormat === 'json' ? 'plan.json' : 'plan'}`;
+        const filePath = path.join(this.outDir, fileName);
+        fs.mkdirSync(this.outDir, { recursive: true });
+        fs.writeFileSync(filePath, this.planFormat === 'json' ? JSON.stringify(toJsonPlanSteps(plan), null, 2) : toIpcPlan(plan), { encoding: 'utf8' });
+        this.io.out(`Plan #${this.planCount} (metric ${plan.metric}, makespan ${plan.makespan}) written to ${filePath}\n`);
+    }
+
+    providePlannerOptions(): string[] {
+        return [];
+    }
+}
+
+function toIpcPlan(plan: Plan): string {
+    return plan.getText() + `\n; Makespan: ${plan.makespan}\n; Metric: ${plan.metric}\n`;
+}
+
+function toJsonPlanSteps(plan: Plan): JsonPlanStep[] {
+    return plan.steps.map(step => ({
+        name: `(${step.getFullActionName()})`,
+        time: step.getStartTime(),
+        duration: step.isDurative ? step.getDuration() : undefined,
+    }));
+}
+
+if (require.main === module) {
+    const abortController = new AbortController();
+    process.once('SIGINT', () => abortController.abort());
+    main(process.argv.slice(2), PROCESS_CONSOLE, abortController.signal)
+        .then(exitCode => process.exitCode = exitCode);
+}
@@ -0,0 +1,31 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import parseXsdDuration from 'parse-xsd-duration';
+import { InvalidDurationError } from './errors';
+
+/**
+ * Time span as a number of seconds, or as an ISO 8601 duration e.g. `PT90S`, `PT15M` or `P1D`.
+ * Years and months are converted using 365 and 30.42 days respectively.
+ */
+export type Duration = number | string;
+
+/**
+ * Converts the duration to seconds.
+ * @param duration number of seconds, or ISO 8601 duration
+ * @param name name of the configured value used in the error message e.g. `timeout`
+ * @returns number of seconds
+ * @throws InvalidDurationError if the duration is not a valid non-negative number or ISO 8601 duration
+ */
+export function toSeconds(duration: Duration, name = 'duration'): number {
+    const seconds = typeof duration === 'number' ? duration :
+        typeof duration === 'string' ? parseXsdDuration(duration.trim().toUpperCase()) :
+            null;
+    if (seconds === null || !Number.isFinite(seconds) || seconds < 0) {
+        throw new InvalidDurationError(`Invalid ${name}: ${duration}. Expected number of seconds or ISO 8601 duration e.g. PT90S.`, duration);
+    }
+    return seconds;
+}
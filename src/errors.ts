@@ -0,0 +1,147 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { IncomingHttpHeaders } from 'http';
+import type { ServiceArgumentProblem } from './ServiceArguments';
+import type { PlannerServiceKind } from './PlannerService';
+
+/** Identifies the service that failed. */
+export interface PlanningServiceErrorContext {
+    /** Protocol of the failed service. */
+    serviceKind?: PlannerServiceKind;
+    /** Url of the failed request. */
+    url?: string;
+}
+
+/** Base class of the planning service failures. */
+export class PlanningServiceError extends Error {
+    /** Protocol of the failed service. Populated by the `PlannerService`, if the error is raised on the HTTP layer. */
+    serviceKind?: PlannerServiceKind;
+    /** Url of the failed request. */
+    url?: string;
+
+    constructor(message: string, context: PlanningServiceErrorContext = {}) {
+        super(message);
+        this.name = 'PlanningServiceError';
+        this.serviceKind = context.serviceKind;
+        this.url = context.url;
+    }
+}
+
+/** Planning request was cancelled by the client (e.g. the user pressed _Stop_). */
+export class PlanningCancelledError extends PlanningServiceError {
+    constructor(message = 'Planning request was cancelled.', context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'PlanningCancelledError';
+    }
+}
+
+/** Planning job did not finish within the allowed time. */
+export class PlanningTimeoutError extends PlanningServiceError {
+    /**
+     * @param message error message
+     * @param timeoutInSec time (in seconds) that was allowed
+     * @param lastStatus last status reported by the service
+     * @param context failed service
+     */
+    constructor(message: string, public readonly timeoutInSec: number, public readonly lastStatus?: string, context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'PlanningTimeoutError';
+    }
+}
+
+/** Planner package service arguments do not match the argument list declared by the service manifest. */
+export class ServiceArgumentsError extends PlanningServiceError {
+    constructor(message: string, public readonly problems: ServiceArgumentProblem[], context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'ServiceArgumentsError';
+    }
+}
+
+/** Service responded with an unexpected HTTP status code. */
+export class HttpStatusError extends PlanningServiceError {
+    /**
+     * @param message error message
+     * @param statusCode HTTP status code
+     * @param headers response headers
+     * @param responseBody response body (as text)
+     * @param context failed service
+     */
+    constructor(message: string, public readonly statusCode: number, public readonly headers: IncomingHttpHeaders,
+        public readonly responseBody?: string, context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'HttpStatusError';
+    }
+}
+
+/** Service rejected the credentials. The user should login or update the tokens. */
+export class AuthenticationError extends HttpStatusError {
+    constructor(message: string, statusCode: number, headers: IncomingHttpHeaders, responseBody?: string, context?: PlanningServiceErrorContext) {
+        super(message, statusCode, headers, responseBody, context);
+        this.name = 'AuthenticationError';
+    }
+}
+
+/** Service responded with unexpected content type. */
+export class ContentTypeError extends PlanningServiceError {
+    /**
+     * @param message error message
+     * @param expectedContentType expected content type e.g. `application/json`
+     * @param contentType received content type
+     * @param context failed service
+     */
+    constructor(message: string, public readonly expectedContentType: string, public readonly contentType: string | undefined,
+        context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'ContentTypeError';
+    }
+}
+
+/** Planner (or the service running it) reported failure. */
+export class PlannerFailedError extends PlanningServiceError {
+    /**
+     * @param message error message
+     * @param serviceStatus status reported by the service e.g. `FAILED` or `error`
+     * @param output planner output reported by the service
+     * @param context failed service
+     */
+    constructor(message: string, public readonly serviceStatus: string | undefined, public readonly output?: string,
+        context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'PlannerFailedError';
+    }
+}
+
+/** Service returned plan in a format the client cannot parse. */
+export class UnsupportedPlanFormatError extends PlanningServiceError {
+    constructor(message: string, public readonly format: string | undefined, context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'UnsupportedPlanFormatError';
+    }
+}
+
+/** Configured duration (e.g. the timeout or the plan time unit) is not valid. */
+export class InvalidDurationError extends PlanningServiceError {
+    constructor(message: string, public readonly duration: unknown, context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'InvalidDurationError';
+    }
+}
+
+/** Problem (or domain) template could not be rendered. */
+export class TemplateRenderingError extends PlanningServiceError {
+    /**
+     * @param message error message
+     * @param fileName template file name
+     * @param line line number (1-based), if reported by the template engine
+     * @param column column number (1-based), if reported by the template engine
+     */
+    constructor(message: string, public readonly fileName: string, public readonly line?: number, public readonly column?: number,
+        context?: PlanningServiceErrorContext) {
+        super(message, context);
+        this.name = 'TemplateRenderingError';
+    }
+}
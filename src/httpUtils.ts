@@ -4,53 +4,304 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import * as http from 'http';
-import * as https from 'https';
-import { URL } from 'url';
-
-const HTTPS = "https:";
-
-function get(url: URL, callback?: ((res: http.IncomingMessage) => void) | undefined): http.ClientRequest {
-    return url.protocol === HTTPS ? https.get(url, callback) : http.get(url, callback);
-}
-
-function request(url: URL, options: http.RequestOptions, callback?: (res: http.IncomingMessage) => void): http.ClientRequest {
-    return url.protocol === HTTPS ? https.request(url, options, callback) : http.request(url, options, callback);
-}
-
-export async function getJson<T>(url: URL): Promise<T> {
-    return await new Promise((resolve, reject) => {
-        get(url, res => {
-            if (res.statusCode && res.statusCode >= 300) {
-                reject(new Error(`Status code ${res.statusCode}, ${res.statusMessage} from ${url}`));
-                res.resume();
-                return;
-            }
-            const contentType = res.headers['content-type'];
-            if (!contentType || !/^application\/json/.test(contentType)) {
-                reject(new Error('Invalid content-type.\n' +
-                    `Expected application/json but received ${contentType} from ${url}`));
-                res.resume();
-                return;
-            }
-            res.setEncoding('utf8');
-            let rawData = '';
-            res.on('data', (chunk) => { rawData += chunk; });
-            res.on('end', () => {
-                try {
-                    const parsedData = JSON.parse(rawData);
-                    // console.log(parsedData);
-                    resolve(parsedData);
-                } catch (e: unknown) {
-                    console.error(e);
-                    reject(e);
-                }
-            });
+// the Node.js modules are only loaded (lazily) in Node.js, so the clients also run in the browser
+import type * as http from 'http';
+import type * as https from 'https';
+import type { ConnectionSettings } from './ConnectionSettings';
+import { FetchHttpTransport, HttpResponse, HttpTransport } from './HttpTransport';
+import type { NodeHttpTransport } from './NodeHttpTransport';
+import { AuthenticationError, ContentTypeError, HttpStatusError, PlanningCancelledError } from './errors';
+import { retry, RetryPolicy, toNonIdempotentRetryPolicy } from './RetryPolicy';
+import type { TrafficCassette } from './TrafficCassette';
+import type { AuthenticationProvider } from './AuthenticationProvider';
+
+/**
+ * Replaces the error raised by the socket tear-down with `PlanningCancelledError`, if the request was aborted.
+ * @param error socket or response error
+ * @param signal abort signal passed to the request
+ * @param from url or friendly name of the service
+ */
+function toRequestError(error: Error, signal: AbortSignal | undefined, from: URL | string): Error {
+    return signal?.aborted ? new PlanningCancelledError(`Request to ${from} was cancelled.`) : error;
+}
+
+/** Maximum length of the error response body kept in the `HttpStatusError`. */
+const MAX_ERROR_BODY_LENGTH = 64 * 1024;
+
+/**
+ * Creates the error for a response with the unexpected content type.
+ * @param contentType received content type
+ * @param url request url
+ */
+function createContentTypeError(contentType: string | undefined, url: URL): ContentTypeError {
+    return new ContentTypeError('Invalid content-type.\n' +
+        `Expected application/json but received ${contentType} from ${url}`, 'application/json', contentType, { url: url.toString() });
+}
+
+function isJson(response: HttpResponse): boolean {
+    const contentType = response.headers['content-type'];
+    return contentType !== undefined && /^application\/json/.test(contentType);
+}
+
+function createHttpStatusError(message: string, response: HttpResponse, url: URL): HttpStatusError {
+    return new HttpStatusError(message, response.statusCode, response.headers, response.body.substring(0, MAX_ERROR_BODY_LENGTH),
+        { url: url.toString() });
+}
+
+/** Options applicable to all requests sent to one planning service. */
+export interface HttpClientOptions {
+    /** Records the traffic to, or replays the traffic from the cassette. */
+    cassette?: TrafficCassette;
+    /** Adds the credentials to the requests. */
+    authentication?: AuthenticationProvider;
+    /** Proxy and TLS settings (honoured by the `NodeHttpTransport`). */
+    connection?: ConnectionSettings;
+    /** Sends the requests. By default, the `NodeHttpTransport` is used in Node.js and the `FetchHttpTransport` elsewhere. */
+    transport?: HttpTransport;
+    /** Compresses the request bodies. The service must support the `Content-Encoding`. */
+    compression?: RequestCompression;
+    /**
+     * Re-sends the request, if it fails for a transient reason. Default is the `DEFAULT_RETRY_POLICY`. Set to `false` to opt out.
+     * The `POST` requests are only re-sent when the service declines them with `429` or `503` and the `Retry-After` header
+     * (see `toNonIdempotentRetryPolicy`), so a job the service accepted is not submitted twice.
+     */
+    retry?: Partial<RetryPolicy> | false;
+}
+
+/**
+ * Request body compression. Bodies smaller than the `minimumSize` (in bytes; default is 1KB) are sent uncompressed.
+ * If the service rejects the compressed body with `415 Unsupported Media Type`, the request is re-sent uncompressed.
+ */
+export interface RequestCompression {
+    encoding: 'gzip' | 'deflate';
+    minimumSize?: number;
+}
+
+const DEFAULT_COMPRESSION_MINIMUM_SIZE = 1024;
+
+interface ExchangeOptions extends https.RequestOptions, HttpClientOptions {
+    signal?: AbortSignal;
+    encoding?: string;
+    onRequestSent?: () => void;
+}
+
+/**
+ * Sends the request and reads the whole response. When the `options.cassette` is provided,
+ * the exchange is recorded, or the response is replayed from the cassette instead of sending the request.
+ * When the `options.authentication` is provided, the credentials are added to the request,
+ * and upon the `401` response, the credential is refreshed and the request is re-sent once.
+ * @param url request url
+ * @param options request options
+ * @param requestData request body
+ */
+async function exchange(url: URL, options: ExchangeOptions, requestData?: string): Promise<HttpResponse> {
+    if (options.signal?.aborted) {
+        throw toRequestError(new Error('Aborted'), options.signal, url);
+    }
+    const replaying = options.cassette?.mode === 'replay';
+    let response = await exchangeOnce(url, options, requestData);
+
+    if (response.statusCode === 415 && options.compression && isCompressed(requestData, options.compression)) {
+        response = await exchangeOnce(url, { ...options, compression: undefined }, requestData);
+    }
+
+    if (response.statusCode === 401 && options.authentication?.refresh
+        && (replaying || await options.authentication.refresh(options.signal))) {
+        return await exchangeOnce(url, options, requestData);
+    }
+    return response;
+}
+
+async function exchangeOnce(url: URL, options: ExchangeOptions, requestData?: string): Promise<HttpResponse> {
+    const method = options.method ?? 'GET';
+    const authenticated = { url: new URL(url.toString()), headers: { ...options.headers } };
+    await options.authentication?.authenticate(authenticated, options.signal);
+
+    if (options.cassette?.mode === 'replay') {
+        // the recorded url includes the (redacted) credentials e.g. the API key query parameter
+        return options.cassette.replay(method, authenticated.url);
+    }
+
+    const transport = options.transport ?? await createDefaultTransport(options);
+    const encoded = await compress(requestData, authenticated.headers, options.compression);
+    const startedAt = new Date();
+    let response: HttpResponse;
+    try {
+        const sending = transport.send({
+            method, url: authenticated.url, headers: encoded.headers, body: encoded.body,
+            signal: options.signal, timeout: options.timeout, encoding: options.encoding,
+        });
+        options.onRequestSent?.();
+        response = await sending;
+    } catch (err: unknown) {
+        throw toRequestError(err as Error, options.signal, url);
+    }
+
+    if (options.cassette?.mode === 'record') {
+        await options.cassette.record({
+            request: { method, url: authenticated.url.toString(), headers: authenticated.headers, body: requestData },
+            response: response,
+            startedAt: startedAt.toISOString(),
+            duration: Date.now() - startedAt.getTime(),
         });
+    }
+    return response;
+}
+
+function isCompressed(requestData: string | undefined, compression: RequestCompression): requestData is string {
+    // the request bodies are compressed using the Node.js zlib module
+    return requestData !== undefined && isNode()
+        && byteLength(requestData) >= (compression.minimumSize ?? DEFAULT_COMPRESSION_MINIMUM_SIZE);
+}
+
+/** `true` when running in Node.js (as opposed to the browser or the web extension host). */
+function isNode(): boolean {
+    return typeof process !== 'undefined' && process.versions?.node !== undefined;
+}
+
+/** UTF-8 length of the text in bytes (the `Buffer` is not available in the browser). */
+function byteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Compresses the request body (if applicable). The traffic cassette records the uncompressed request.
+ * @param requestData request body
+ * @param headers request headers
+ * @param compression compression options
+ * @returns request body and headers (incl. the `Content-Encoding` and `Content-Length`) to send
+ */
+async function compress(requestData: string | undefined, headers: http.OutgoingHttpHeaders,
+    compression: RequestCompression | undefined): Promise<{ body?: string | Uint8Array, headers: http.OutgoingHttpHeaders }> {
+    if (!compression || !isCompressed(requestData, compression)) {
+        return { body: requestData, headers };
+    }
+    const zlib = await import('zlib');
+    const compressed = await new Promise<Uint8Array>((resolve, reject) => {
+        const callback = (error: Error | null, result: Uint8Array): void => error ? reject(error) : resolve(result);
+        compression.encoding === 'gzip' ? zlib.gzip(requestData, callback) : zlib.deflate(requestData, callback);
     });
+    return { body: compressed, headers: { ...headers, 'Content-Encoding': compression.encoding, 'Content-Length': compressed.length } };
 }
 
-export interface PostOptions extends https.RequestOptions {
+/** Options handled by this module or by the `HttpTransport`, i.e. not passed to the Node.js request as they are. */
+const CLIENT_OPTION_NAMES = ['cassette', 'authentication', 'connection', 'transport', 'compression', 'retry', 'signal', 'encoding', 'timeout',
+    'method', 'headers', 'json', 'isAuthenticated', 'serviceFriendlyName', 'verbose', 'onRequestSent'];
+
+/** Connection settings of the clients, which do not specify any. */
+const DEFAULT_CONNECTION: ConnectionSettings = {};
+
+/** Node.js transports by the connection settings, so the proxy and TLS agents are reused across the requests of one client. */
+const nodeTransports = new WeakMap<ConnectionSettings, NodeHttpTransport>();
+
+async function createDefaultTransport(options: ExchangeOptions): Promise<HttpTransport> {
+    if (!isNode()) {
+        return new FetchHttpTransport();
+    }
+    const { NodeHttpTransport } = await import('./NodeHttpTransport');
+    const connection = options.connection ?? DEFAULT_CONNECTION;
+    const requestOptions = Object.fromEntries(Object.entries(options)
+        .filter(([name, value]) => value !== undefined && !CLIENT_OPTION_NAMES.includes(name))) as https.RequestOptions;
+    if (Object.keys(requestOptions).length > 0) {
+        // custom Node.js request options e.g. the `agent`
+        return new NodeHttpTransport(connection, requestOptions);
+    }
+    let transport = nodeTransports.get(connection);
+    if (!transport) {
+        transport = new NodeHttpTransport(connection);
+        nodeTransports.set(connection, transport);
+    }
+    return transport;
+}
+
+export interface GetOptions extends https.RequestOptions, HttpClientOptions {
+    /** Aborts the request (and tears down the socket), when signalled. */
+    signal?: AbortSignal;
+}
+
+export async function getJson<T>(url: URL, options: GetOptions = {}): Promise<T> {
+    return await retry(() => getJsonOnce<T>(url, options), options.retry, options.signal);
+}
+
+async function getJsonOnce<T>(url: URL, options: GetOptions): Promise<T> {
+    const response = await exchange(url, { ...options, method: 'GET' });
+    return parseJsonResponse<T>(response, url, options);
+}
+
+function parseJsonResponse<T>(response: HttpResponse, url: URL, options: GetOptions): T {
+    if (options.authentication && response.statusCode === 401) {
+        throw new AuthenticationError(`Invalid credentials. Please update tokens. (${url})`, response.statusCode, response.headers,
+            response.body.substring(0, MAX_ERROR_BODY_LENGTH), { url: url.toString() });
+    }
+    if (response.statusCode >= 300) {
+        throw createHttpStatusError(`Status code ${response.statusCode}, ${response.statusMessage} from ${url}`, response, url);
+    }
+    if (!isJson(response)) {
+        throw createContentTypeError(response.headers['content-type'], url);
+    }
+    try {
+        return JSON.parse(response.body);
+    } catch (e: unknown) {
+        console.error(e);
+        throw e;
+    }
+}
+
+/** Validators of the previously received representation. */
+export interface CacheValidators {
+    /** `ETag` response header */
+    etag?: string;
+    /** `Last-Modified` response header */
+    lastModified?: string;
+}
+
+/** Response to the conditional request. */
+export interface ConditionalResponse<T> extends CacheValidators {
+    /** `true` if the cached representation is still valid (the `body` is then not populated) */
+    notModified: boolean;
+    body?: T;
+}
+
+/**
+ * Sends conditional `GET` request revalidating the cached representation.
+ * @param url request url
+ * @param validators validators of the cached representation (sent as `If-None-Match` and `If-Modified-Since`)
+ * @param options request options
+ */
+export async function getJsonIfModified<T>(url: URL, validators: CacheValidators, options: GetOptions = {}): Promise<ConditionalResponse<T>> {
+    const headers: http.OutgoingHttpHeaders = { ...options.headers };
+    validators.etag && (headers['If-None-Match'] = validators.etag);
+    validators.lastModified && (headers['If-Modified-Since'] = validators.lastModified);
+
+    return await retry(async () => {
+        const response = await exchange(url, { ...options, headers, method: 'GET' });
+        const etag = asSingleHeader(response.headers['etag']);
+        const lastModified = asSingleHeader(response.headers['last-modified']);
+        if (response.statusCode === 304) {
+            return { notModified: true, etag: etag ?? validators.etag, lastModified: lastModified ?? validators.lastModified };
+        }
+        // the validators of the previous representation do not apply to the new one
+        return { notModified: false, body: parseJsonResponse<T>(response, url, options), etag, lastModified };
+    }, options.retry, options.signal);
+}
+
+function asSingleHeader(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Sends the `DELETE` request e.g. to terminate a remote job.
+ * @param url resource url
+ * @param options request options
+ */
+export async function deleteResource(url: URL, options: GetOptions = {}): Promise<void> {
+    const response = await exchange(url, { ...options, method: 'DELETE' });
+    if (response.statusCode >= 300) {
+        throw createHttpStatusError(`Status code ${response.statusCode}, ${response.statusMessage} from ${url}`, response, url);
+    }
+}
+
+export interface PostOptions extends https.RequestOptions, HttpClientOptions {
     /** Response body should be parsed as JSON input. */
     json?: boolean;
     /** Response body should be read using given encoding. */
@@ -58,6 +309,10 @@ export interface PostOptions extends https.RequestOptions {
     isAuthenticated?: boolean;
     serviceFriendlyName?: string;
     verbose?: boolean;
+    /** Aborts the request (and tears down the socket), when signalled. */
+    signal?: AbortSignal;
+    /** Notified when the request was handed over to the `transport` (for each attempt). */
+    onRequestSent?: () => void;
 }
 
 export function postJsonAsString(url: URL, requestBody: never, options: PostOptions): Promise<string> {
@@ -69,61 +324,59 @@ export async function postJson<T>(url: URL, requestBody: never, options: PostOpt
     const requestData = JSON.stringify(requestBody);
     options.headers = options.headers ?? {};
     options.headers['Content-Type'] = 'application/json';
-    options.headers['Content-Length'] = requestData.length;
-
-    return await new Promise((resolve, reject) => {
-        const from = options.serviceFriendlyName ?? url;
-        options.method = 'POST';
-        const req = request(url, options, res => {
-            if (res.statusCode && res.statusCode > 202) {
-                let message: string;
-                if (options.isAuthenticated && res.statusCode === 400) {
-                    message = `Authentication failed. Please login or update tokens. (${from})`;
-                }
-                else if (options.isAuthenticated && res.statusCode === 401) {
-                    message = `Invalid token. Please update tokens. (${from})`;
-                }
-                else {
-                    message = `${from} returned code ${res.statusCode} ${res.statusMessage}`;
-                }
-                reject(new Error(message));
-                res.resume();
-                return;
-            }
-            if (options.json) {
-                const contentType = res.headers['content-type'];
-                if (!contentType || !/^application\/json/.test(contentType)) {
-                    reject(new Error('Invalid content-type.\n' +
-                        `Expected application/json but received ${contentType} from ${url}`));
-                    res.resume();
-                    return;
-                }
-            }
-            res.on('error', error => {
-                reject(error);
-            });
-            res.setEncoding((options.encoding as BufferEncoding) ?? 'utf8');
-            let rawData = '';
-            res.on('data', (chunk) => { rawData += chunk; });
-            res.on('end', () => {
-                if (options.json) {
-                    try {
-                        const parsedData = JSON.parse(rawData);
-                        options.verbose && console.log(parsedData);
-                        resolve(parsedData);
-                    } catch (e: unknown) {
-                        console.error(e);
-                        reject(e);
-                    }
-                } else {
-                    resolve(rawData as unknown as T);
-                }
-            });
-        });
-        req.on('error', error => {
-            reject(error);
-        });
-        req.write(requestData);
-        req.end();
-    });
+    options.headers['Content-Length'] = byteLength(requestData);
+
+    return await retry(() => postJsonOnce<T>(url, requestData, options), toNonIdempotentRetryPolicy(options.retry), options.signal);
+}
+
+/**
+ * Posts the `application/x-www-form-urlencoded` form e.g. to the OAuth2 token endpoint.
+ * @param url request url
+ * @param form form fields
+ * @param options request options
+ * @returns parsed JSON response
+ */
+export async function postForm<T>(url: URL, form: Record<string, string>, options: PostOptions): Promise<T> {
+    const requestData = new URLSearchParams(form).toString();
+    options.headers = options.headers ?? {};
+    options.headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    options.headers['Content-Length'] = byteLength(requestData);
+    options.json = true;
+
+    return await retry(() => postJsonOnce<T>(url, requestData, options), toNonIdempotentRetryPolicy(options.retry), options.signal);
+}
+
+async function postJsonOnce<T>(url: URL, requestData: string, options: PostOptions): Promise<T> {
+    const from = options.serviceFriendlyName ?? url;
+    const response = await exchange(url, { ...options, method: 'POST' }, requestData);
+
+    if (response.statusCode > 202) {
+        const statusCode = response.statusCode;
+        const body = response.body.substring(0, MAX_ERROR_BODY_LENGTH);
+        const context = { url: url.toString() };
+        if (options.isAuthenticated && statusCode === 400) {
+            throw new AuthenticationError(`Authentication failed. Please login or update tokens. (${from})`, statusCode, response.headers, body, context);
+        }
+        else if (options.isAuthenticated && statusCode === 401) {
+            throw new AuthenticationError(`Invalid token. Please update tokens. (${from})`, statusCode, response.headers, body, context);
+        }
+        else {
+            throw createHttpStatusError(`${from} returned code ${statusCode} ${response.statusMessage}`, response, url);
+        }
+    }
+    if (options.json) {
+        if (!isJson(response)) {
+            throw createContentTypeError(response.headers['content-type'], url);
+        }
+        try {
+            const parsedData = JSON.parse(response.body);
+            options.verbose && console.log(parsedData);
+            return parsedData;
+        } catch (e: unknown) {
+            console.error(e);
+            throw e;
+        }
+    } else {
+        return response.body as unknown as T;
+    }
 }
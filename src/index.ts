@@ -1,6 +1,27 @@
 export * from './PlannerService';
 export * from './PlannerSyncService';
+export * from './PlanValidationService';
 export * from './PlannerAsyncService';
 export * from './PlannerPackagePreviewService';
 export * from './PackagedPlanners';
+export * from './PackagedPlannersCatalog';
 export * from './httpUtils';
+export * from './durationUtils';
+export * from './errors';
+export * from './PollingPolicy';
+export * from './RetryPolicy';
+export * from './AuthenticationProvider';
+export * from './HttpTransport';
+export * from './BatchPlanner';
+export * from './PortfolioPlanner';
+export * from './PlanDecoderRegistry';
+export * from './PddlTemplateRenderer';
+export * from './ServiceArguments';
+export * from './PlannerServiceFactory';
+
+// Node.js-only modules (see ./node); the main entry point only exports their types
+export type * from './ConnectionSettings';
+export type * from './NodeHttpTransport';
+export type * from './PlanCache';
+export type * from './SearchDebuggerReceiver';
+export type * from './TrafficCassette';
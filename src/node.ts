@@ -0,0 +1,15 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/*
+ * Node.js-only parts of the client. They depend on the Node.js `http`, `fs` or `crypto` modules, so the main entry point
+ * only exports their types and the clients also run in the browser. Import them from `pddl-planning-service-client/dist/node`.
+ */
+export * from './ConnectionSettings';
+export * from './NodeHttpTransport';
+export * from './PlanCache';
+export * from './SearchDebuggerReceiver';
+export * from './TrafficCassette';
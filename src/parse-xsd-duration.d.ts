@@ -0,0 +1,8 @@
+declare module 'parse-xsd-duration' {
+    /**
+     * Parses the XSD (ISO 8601) duration.
+     * @param xsdDuration duration e.g. `PT2M10S`
+     * @returns number of seconds, or `null` if the duration is not valid
+     */
+    export default function parseXsdDuration(xsdDuration: string): number | null;
+}
@@ -0,0 +1,11 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/*
+ * Test utilities. They depend on the Node.js `http` module, so they are not exported from the main entry point.
+ * Import them from `pddl-planning-service-client/dist/testing`.
+ */
+export * from './ReferencePlanningServer';
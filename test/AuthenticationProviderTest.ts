@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import {
+    ApiKeyAuthentication, AuthenticationError, BasicAuthentication, BearerTokenAuthentication, OAuth2ClientCredentialsAuthentication,
+    PlannerPackagePreviewService, PlannerSyncService, ReferencePlanningServer
+} from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("AuthenticationProvider", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    const solved = ReferencePlanningServer.solveResult([{ name: '(a)' }]);
+
+    async function solve(service: PlannerSyncService): Promise<void> {
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+    }
+
+    it('sends the bearer token of the run configuration', async () => {
+        server.onSolve(solved);
+
+        await solve(new PlannerSyncService(server.url + '/solve', { authentication: { getToken: () => 'abc' } }, providerConfiguration));
+
+        expect(server.requests[0].headers['authorization']).to.equal('Bearer abc');
+    });
+
+    it('refreshes the bearer token once upon 401', async () => {
+        server.onSolve(ReferencePlanningServer.httpError(401), solved);
+        const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+        service.httpOptions = { authentication: new BearerTokenAuthentication(() => 'expired', async () => 'fresh') };
+
+        await solve(service);
+
+        expect(server.requests.map(r => r.headers['authorization'])).to.deep.equal(['Bearer expired', 'Bearer fresh']);
+    });
+
+    it('rejects with AuthenticationError, when the refreshed credential is rejected', async () => {
+        server.onSolve(ReferencePlanningServer.httpError(401));
+        const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+        service.httpOptions = { authentication: new BearerTokenAuthentication(() => 'expired', async () => 'also expired') };
+
+        try {
+            await solve(service);
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(AuthenticationError);
+            expect(server.requests).to.have.length(2);
+        }
+    });
+
+    it('obtains the OAuth2 client credentials token', async () => {
+        server.onSolve(solved).onToken(ReferencePlanningServer.token('token1'));
+        const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+        service.httpOptions = {
+            authentication: new OAuth2ClientCredentialsAuthentication({ tokenUrl: server.url + '/token', clientId: 'client', clientSecret: 'secret', scope: 'plan' })
+        };
+
+        await solve(service);
+        await solve(service);
+
+        const [tokenRequest, ...solveRequests] = server.requests;
+        expect(tokenRequest.body).to.deep.equal({ grant_type: 'client_credentials', scope: 'plan' });
+        expect(tokenRequest.headers['authorization']).to.equal('Basic ' + Buffer.from('client:secret').toString('base64'));
+        expect(solveRequests.map(r => r.headers['authorization'])).to.deep.equal(['Bearer token1', 'Bearer token1']);
+    });
+
+    it('sends the API key in the query and the basic credentials to the result check', async () => {
+        server.addPackage({
+            name: 'Planner', package_name: 'planner', description: undefined, runnable: true, "install-size": '1M', dependencies: [],
+            endpoint: { services: { solve: { args: [], call: 'planner', return: { files: '*plan*', type: 'generic' } } } },
+        }, ReferencePlanningServer.packageResult({ plan: '(a)\n' }));
+        const service = new PlannerPackagePreviewService(server.url + '/package/planner/solve', { polling: { initialInterval: 1 } }, providerConfiguration);
+
+        service.httpOptions = { authentication: new ApiKeyAuthentication('key1', { queryParameter: 'api_key' }) };
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        service.httpOptions = { authentication: new BasicAuthentication('user', 'pwd') };
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(server.requests.map(r => r.url.includes('api_key=key1'))).to.deep.equal([true, true, false, false]);
+        expect(server.requests.map(r => r.headers['authorization'] !== undefined)).to.deep.equal([false, false, true, true]);
+        expect(server.requests.map(r => r.method)).to.deep.equal(['POST', 'GET', 'POST', 'GET']);
+    });
+});
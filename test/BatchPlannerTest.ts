@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { DomainInfo, parser, ProblemInfo } from 'pddl-workspace';
+import { URI } from 'vscode-uri';
+import { BatchPlanner, HttpResponse, HttpTransportRequest, PackageManifest, PlannerPackagePreviewService, PlannerSyncService, ReferencePlanningServer } from './src';
+import { parseDomainAndProblem, providerConfiguration } from './testUtils';
+
+describe("BatchPlanner", () => {
+    let domain: DomainInfo;
+    let problems: ProblemInfo[];
+
+    before(async () => {
+        [domain] = await parseDomainAndProblem();
+        problems = await Promise.all(['p1', 'p2', 'p3', 'slow'].map(async name =>
+            (await parser.PddlProblemParser.parseText(`(define (problem ${name}) (:domain d) (:init ) (:goal (p)))`, URI.file(`/problems/${name}.pddl`)))!));
+    });
+
+    it('runs the jobs with limited concurrency and reports the results', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const send = async (request: HttpTransportRequest): Promise<HttpResponse> => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            try {
+                const problem = JSON.parse(String(request.body ?? '{}')).problem as string;
+                if (problem.includes('slow')) {
+                    await new Promise((resolve, reject) => {
+                        const timer = setTimeout(resolve, 5000);
+                        request.signal?.addEventListener('abort', () => { clearTimeout(timer); reject(new Error('aborted')); });
+                    });
+                }
+                await new Promise(resolve => setTimeout(resolve, 10));
+                if (problem.includes('p2')) {
+                    return { statusCode: 500, statusMessage: 'Internal Server Error', headers: {}, body: 'planner crashed' };
+                }
+                const body = JSON.stringify(ReferencePlanningServer.solveResult([{ name: '(a)', time: 0, duration: 2 }]).body);
+                return { statusCode: 200, headers: { 'content-type': 'application/json' }, body };
+            } finally {
+                inFlight--;
+            }
+        };
+        const batch = new BatchPlanner(() => {
+            const service = new PlannerSyncService('http://planner.invalid/solve', {}, providerConfiguration);
+            service.httpOptions = { transport: { send } };
+            return service;
+        });
+
+        const finished: string[] = [];
+        const report = await batch.run(domain, problems, { concurrency: 2, jobTimeout: 0.2, onJobFinished: job => finished.push(job.problem) });
+
+        expect(maxInFlight).to.equal(2);
+        expect(finished).to.have.members(['p1', 'p2', 'p3', 'slow']);
+        expect(report.jobs.map(job => job.status)).to.deep.equal(['solved', 'failed', 'solved', 'timeout']);
+        expect(report.jobs[1].error).to.contain('500');
+        expect(report.jobs[0]).to.include({ problem: 'p1', planCount: 1, makespan: 2, metric: 2 });
+
+        const csv = report.toCsv().split('\n');
+        expect(csv[0]).to.equal('problem,problemUri,status,planCount,makespan,metric,statesEvaluated,elapsed,error');
+        expect(csv[1]).to.match(/^p1,file:\/\/\/problems\/p1.pddl,solved,1,2,2,,\d+,$/);
+        expect(JSON.parse(report.toJson())).to.have.length(4);
+    });
+
+    it('reports the service timeout as timeout', async () => {
+        const manifest: PackageManifest = {
+            name: 'Planner', package_name: 'planner', description: undefined, runnable: true, "install-size": '1M', dependencies: [],
+            endpoint: { services: { solve: { args: [], call: 'planner', return: { files: '*plan*', type: 'generic' } } } },
+        };
+        const server = new ReferencePlanningServer().addPackage(manifest, ReferencePlanningServer.packagePending());
+        await server.start();
+        try {
+            const batch = new BatchPlanner(() => new PlannerPackagePreviewService(server.url + '/package/planner/solve',
+                { timeout: 0.05, polling: { initialInterval: 10 } }, providerConfiguration));
+
+            const report = await batch.run(domain, problems.slice(0, 1));
+
+            expect(report.jobs[0].status).to.equal('timeout');
+            expect(report.jobs[0].error).to.contain('did not finish within');
+        } finally {
+            await server.stop();
+        }
+    });
+});
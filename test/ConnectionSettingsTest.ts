@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { PlannerSyncService, ReferencePlanningServer, resolveProxy } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("ConnectionSettings", () => {
+
+    describe("resolveProxy", () => {
+        const env = { HTTPS_PROXY: 'http://secure-proxy:3128', http_proxy: 'proxy:8080', NO_PROXY: '.corp.example.com, intranet:8443' };
+
+        it('uses the proxy environment variable by the protocol', () => {
+            expect(resolveProxy(new URL('https://solver.planning.domains/solve'), {}, env)?.toString()).to.equal('http://secure-proxy:3128/');
+            expect(resolveProxy(new URL('http://solver.planning.domains/solve'), {}, env)?.toString()).to.equal('http://proxy:8080/');
+        });
+
+        it('bypasses the proxy for the NO_PROXY and loopback hosts', () => {
+            expect(resolveProxy(new URL('https://planner.corp.example.com/solve'), {}, env)).to.be.undefined;
+            expect(resolveProxy(new URL('https://intranet:8443/solve'), {}, env)).to.be.undefined;
+            expect(resolveProxy(new URL('https://intranet/solve'), {}, env)).to.not.be.undefined;
+            expect(resolveProxy(new URL('http://localhost:8080/solve'), {}, env)).to.be.undefined;
+        });
+
+        it('prefers the explicit settings', () => {
+            expect(resolveProxy(new URL('https://solver.planning.domains/solve'), { proxy: 'http://other:3128' }, env)?.host).to.equal('other:3128');
+            expect(resolveProxy(new URL('https://solver.planning.domains/solve'), { proxy: false }, env)).to.be.undefined;
+            expect(resolveProxy(new URL('https://solver.planning.domains/solve'), { noProxy: ['planning.domains'] }, env)).to.be.undefined;
+        });
+
+        it('matches the IPv6 NO_PROXY entries', () => {
+            const noProxy = ['fd00::10', '[fd00::20]:8443'];
+            expect(resolveProxy(new URL('https://[fd00::10]/solve'), { noProxy }, env)).to.be.undefined;
+            expect(resolveProxy(new URL('https://[fd00::20]:8443/solve'), { noProxy }, env)).to.be.undefined;
+            expect(resolveProxy(new URL('https://[fd00::20]/solve'), { noProxy }, env)).to.not.be.undefined;
+            expect(resolveProxy(new URL('https://[fd00::1]/solve'), { noProxy }, env)).to.not.be.undefined;
+        });
+    });
+
+    it('sends the plain HTTP request through the proxy', async () => {
+        const [domain, problem] = await parseDomainAndProblem();
+        const server = new ReferencePlanningServer().onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+        await server.start();
+
+        const proxiedUrls: string[] = [];
+        const proxy = http.createServer((req, res) => {
+            proxiedUrls.push(req.url ?? '');
+            const forwarded = http.request(req.url ?? '', { method: req.method, headers: req.headers }, response => {
+                res.writeHead(response.statusCode ?? 500, response.headers);
+                response.pipe(res);
+            });
+            req.pipe(forwarded);
+        });
+        await new Promise<void>(resolve => proxy.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+            service.httpOptions = { connection: { proxy: `http://127.0.0.1:${(proxy.address() as AddressInfo).port}` } };
+            const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+            expect(plans).to.have.length(1);
+            expect(proxiedUrls).to.deep.equal([server.url + '/solve']);
+        } finally {
+            proxy.closeAllConnections();
+            await new Promise(resolve => proxy.close(resolve));
+            await server.stop();
+        }
+    });
+});
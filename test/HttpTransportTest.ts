@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as http from 'http';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import {
+    FetchHttpTransport, HttpResponse, HttpTransport, HttpTransportRequest, PlannerAsyncService, PlannerSyncService, postJson, ReferencePlanningServer
+} from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("HttpTransport", () => {
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    it('sends the requests through the injected transport', async () => {
+        const requests: HttpTransportRequest[] = [];
+        const transport: HttpTransport = {
+            send: async (request: HttpTransportRequest): Promise<HttpResponse> => {
+                requests.push(request);
+                const body = JSON.stringify(ReferencePlanningServer.solveResult([{ name: '(a)' }]).body);
+                return { statusCode: 200, headers: { 'content-type': 'application/json' }, body };
+            }
+        };
+        const service = new PlannerSyncService('http://planner.invalid/solve', {}, providerConfiguration);
+        service.httpOptions = { transport };
+
+        const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(plans).to.have.length(1);
+        expect(requests.map(r => r.method + ' ' + r.url)).to.deep.equal(['POST http://planner.invalid/solve']);
+        expect(JSON.parse(String(requests[0].body))).to.deep.equal({ domain: domain.getText(), problem: problem.getText() });
+    });
+
+    it('polls the asynchronous job using fetch', async () => {
+        const jsonPlan = ReferencePlanningServer.asyncPlan(JSON.stringify([{ name: 'a', time: 0, duration: 1 }]), 'JSON', 1, 1);
+        const server = new ReferencePlanningServer().onRequest(
+            ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN'),
+            ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan], 'done'),
+        );
+        await server.start();
+        try {
+            const service = new PlannerAsyncService(server.url + '/request', { planFormat: 'JSON', asyncMode: true, pollingInterval: 10 }, providerConfiguration);
+            service.httpOptions = { transport: new FetchHttpTransport() };
+
+            const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+            expect(plans).to.have.length(1);
+            expect(server.requests.map(r => r.method)).to.deep.equal(['POST', 'GET']);
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('loads the main entry point without the Node.js networking modules', () => {
+        // web bundles do not provide these modules
+        const unavailableModules = ['http', 'https', 'zlib', 'net', 'tls', 'stream', 'url', 'util', 'crypto'];
+        const script = `
+            const Module = require('module');
+            const load = Module._load;
+            Module._load = function (request, ...rest) {
+                if (${JSON.stringify(unavailableModules)}.includes(request.replace(/^node:/, ''))) { throw new Error('Module ' + request + ' is not available.'); }
+                return load.call(this, request, ...rest);
+            };
+            const client = require(${JSON.stringify(path.join(__dirname, '..', 'src', 'index'))});
+            process.stdout.write(typeof client.PlannerSyncService + ' ' + typeof client.NodeHttpTransport);
+        `;
+
+        expect(execFileSync(process.execPath, ['-e', script], { encoding: 'utf8' })).to.equal('function undefined');
+    });
+
+    describe('compression', () => {
+        let server: http.Server;
+        let received: { headers: http.IncomingHttpHeaders, body: Buffer }[];
+        let url: URL;
+
+        beforeEach(async () => {
+            received = [];
+            server = http.createServer((req, res) => {
+                const chunks: Buffer[] = [];
+                req.on('data', chunk => chunks.push(chunk));
+                req.on('end', () => {
+                    received.push({ headers: req.headers, body: Buffer.concat(chunks) });
+                    if (req.headers['content-encoding'] === 'deflate') {
+                        res.writeHead(415).end();
+                        return;
+                    }
+                    const body = zlib.gzipSync(JSON.stringify({ echo: 'ok' }));
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip', 'Content-Length': body.length }).end(body);
+                });
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            url = new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/solve`);
+        });
+
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('sends the byte length of non-ASCII bodies and decodes gzip responses', async () => {
+            const body = { problem: '; příliš žluťoučký kůň' };
+
+            const response = await postJson<{ echo: string }>(url, body as never, { json: true });
+
+            expect(response).to.deep.equal({ echo: 'ok' });
+            expect(received[0].headers['content-length']).to.equal(String(Buffer.byteLength(JSON.stringify(body))));
+            expect(received[0].headers['accept-encoding']).to.equal('gzip, deflate, br');
+            expect(received[0].body.toString('utf8')).to.equal(JSON.stringify(body));
+        });
+
+        it('compresses large request bodies', async () => {
+            const body = { problem: '(at truck1 depot1)\n'.repeat(1000) };
+
+            await postJson(url, body as never, { json: true, compression: { encoding: 'gzip' } });
+
+            expect(received[0].headers['content-encoding']).to.equal('gzip');
+            expect(received[0].headers['content-length']).to.equal(String(received[0].body.length));
+            expect(received[0].body.length).to.be.lessThan(JSON.stringify(body).length / 10);
+            expect(zlib.gunzipSync(received[0].body).toString('utf8')).to.equal(JSON.stringify(body));
+        });
+
+        it('re-sends uncompressed body, when the compression is not supported', async () => {
+            const body = { problem: '(at truck1 depot1)\n'.repeat(1000) };
+
+            await postJson(url, body as never, { json: true, compression: { encoding: 'deflate' } });
+
+            expect(received.map(r => r.headers['content-encoding'])).to.deep.equal(['deflate', undefined]);
+            expect(received[1].body.toString('utf8')).to.equal(JSON.stringify(body));
+        });
+
+        it('compresses the planning requests of the service', async () => {
+            const planningServer = new ReferencePlanningServer().onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+            await planningServer.start();
+            try {
+                const service = new PlannerSyncService(planningServer.url + '/solve', {}, providerConfiguration);
+                service.httpOptions = { compression: { encoding: 'gzip', minimumSize: 0 } };
+
+                const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+                expect(plans).to.have.length(1);
+                expect(planningServer.requests[0].headers['content-encoding']).to.equal('gzip');
+                expect(planningServer.requests[0].body).to.deep.equal({ domain: domain.getText(), problem: problem.getText() });
+            } finally {
+                await planningServer.stop();
+            }
+        });
+
+        it('sends small bodies uncompressed', async () => {
+            await postJson(url, { problem: '(p)' } as never, { json: true, compression: { encoding: 'gzip' } });
+
+            expect(received[0].headers['content-encoding']).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { URL } from 'url';
+import { PackagedPlannersCatalog, PackageManifest, ReferencePlanningServer } from './src';
+
+function createManifest(packageName: string, runnable: boolean, services: { [name: string]: string[] }): PackageManifest {
+    const endpointServices = Object.fromEntries(Object.entries(services).map(([name, args]) => [name, {
+        args: args.map(arg => ({ name: arg, description: arg, type: 'int' as const })),
+        call: 'planner', return: { files: '*plan*', type: 'generic' },
+    }]));
+    return { name: packageName, package_name: packageName, description: undefined, runnable, "install-size": '1M', dependencies: [], endpoint: { services: endpointServices } };
+}
+
+describe("PackagedPlannersCatalog", () => {
+    let server: ReferencePlanningServer;
+    let cacheDir: string;
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer()
+            .addPackage(createManifest('lama-first', true, { solve: ['domain', 'problem'] }), ReferencePlanningServer.packagePending())
+            .addPackage(createManifest('kstar', true, { solve: ['domain', 'problem'], topk: ['domain', 'problem', 'k'] }), ReferencePlanningServer.packagePending())
+            .addPackage(createManifest('val', false, { validate: ['domain', 'problem', 'plan'] }), ReferencePlanningServer.packagePending());
+        await server.start();
+        cacheDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'catalog-'));
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        await fs.promises.rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it('queries the packages', async () => {
+        const catalog = new PackagedPlannersCatalog(new URL(server.url + '/package'));
+
+        expect((await catalog.getRunnable()).map(m => m.package_name)).to.deep.equal(['lama-first', 'kstar']);
+        expect((await catalog.findByService('topk')).map(m => m.package_name)).to.deep.equal(['kstar']);
+        expect((await catalog.findByArgument('k')).map(m => m.package_name)).to.deep.equal(['kstar']);
+        expect((await catalog.getPackage('val'))?.runnable).to.be.false;
+        expect(catalog.createServiceUrl('kstar', 'topk')).to.equal(server.url + '/package/kstar/topk');
+    });
+
+    it('revalidates the cached manifests using the ETag', async () => {
+        const cacheFile = path.join(cacheDir, 'manifests.json');
+        await new PackagedPlannersCatalog(new URL(server.url + '/package'), { cacheFile }).getManifests();
+
+        // new session loads the cache file
+        const catalog = new PackagedPlannersCatalog(new URL(server.url + '/package'), { cacheFile });
+        const manifests = await catalog.getManifests();
+
+        expect(manifests).to.have.length(3);
+        expect(server.requests.map(r => r.headers['if-none-match'])).to.deep.equal([undefined, '"manifests-3"']);
+    });
+
+    it('uses the fresh cache without requests', async () => {
+        const catalog = new PackagedPlannersCatalog(new URL(server.url + '/package'), { maxAge: 60 });
+        await catalog.getManifests();
+        await catalog.getRunnable();
+        expect(server.requests).to.have.length(1);
+
+        await catalog.invalidate();
+        await catalog.getManifests();
+        expect(server.requests).to.have.length(2);
+    });
+
+    it('revalidates, when forced during the request in flight', async () => {
+        const catalog = new PackagedPlannersCatalog(new URL(server.url + '/package'), { maxAge: 60 });
+
+        await Promise.all([catalog.getManifests(), catalog.getManifests(true), catalog.getManifests(true)]);
+
+        expect(server.requests).to.have.length(2);
+        expect(server.requests[1].headers['if-none-match']).to.equal('"manifests-3"');
+    });
+
+    it('drops the validators of the replaced representation', async () => {
+        const responseHeaders = [{ etag: '"v1"' }, {}, {}];
+        const ifNoneMatch: unknown[] = [];
+        const catalog = new PackagedPlannersCatalog(new URL('http://planner.invalid/package'), {
+            httpOptions: {
+                transport: {
+                    send: async request => {
+                        ifNoneMatch.push(request.headers['If-None-Match']);
+                        return { statusCode: 200, headers: { 'content-type': 'application/json', ...responseHeaders.shift() }, body: '[]' };
+                    }
+                }
+            }
+        });
+
+        await catalog.getManifests(true);
+        await catalog.getManifests(true);
+        await catalog.getManifests(true);
+
+        expect(ifNoneMatch).to.deep.equal([undefined, '"v1"', undefined]);
+    });
+});
@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { DomainInfo, parser, ProblemInfo } from 'pddl-workspace';
+import { PddlTemplateRenderer, PlannerSyncService, ReferencePlanningServer, TemplateRenderingError } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+const problemTemplate = `(define (problem p1) (:domain d)
+(:objects {% for truck in data.trucks %}{{ truck.name }} {% endfor %}- truck)
+(:init )
+(:goal (p)))`;
+
+describe("PddlTemplateRenderer", () => {
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain] = await parseDomainAndProblem();
+        problem = (await parser.PddlProblemParser.parseText(problemTemplate))!;
+    });
+
+    it('sends the rendered problem to the service', async () => {
+        const server = new ReferencePlanningServer().onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+        await server.start();
+        try {
+            const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+            const data = { trucks: PddlTemplateRenderer.parseCsv('name,capacity\ntruck1,10\n"truck2",20\n') };
+
+            const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler(), { templating: { data } });
+
+            expect(plans).to.have.length(1);
+            expect(service.renderedTemplates?.problem).to.contain('(:objects truck1 truck2 - truck)');
+            expect(service.renderedTemplates?.domain).to.equal(undefined);
+            expect(server.requests[0].body).to.have.property('problem', service.renderedTemplates?.problem);
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('reports the template error with the line number', () => {
+        const renderer = new PddlTemplateRenderer({ data: {} });
+
+        try {
+            renderer.render('(define (problem p1)\n(:objects {{ data.trucks }}))', 'problem.pddl');
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(TemplateRenderingError);
+            const error = err as TemplateRenderingError;
+            expect(error.fileName).to.equal('problem.pddl');
+            expect(error.line).to.equal(2);
+            expect(error.message).to.equal('Template problem.pddl at line 2, column 11: attempted to output null or undefined value');
+        }
+    });
+
+    describe('#parseCsv()', () => {
+        it('parses the quoted fields', () => {
+            expect(PddlTemplateRenderer.parseCsv('name,note\r\na,"x, ""y"""\r\nb,\r\n')).to.deep.equal([
+                { name: 'a', note: 'x, "y"' },
+                { name: 'b', note: '' },
+            ]);
+        });
+    });
+});
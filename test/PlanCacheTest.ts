@@ -0,0 +1,103 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { AsyncServiceConfiguration, PlanCache, PlannerAsyncService, PlannerSyncService, ReferencePlanningServer } from './src';
+import { createPlanParser, domainText, parseDomainAndProblem, problemText, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("PlanCache", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        server.onSolve(ReferencePlanningServer.solveResult([{ name: '(a)', time: 1, duration: 2 }]));
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    function createService(planCache: PlanCache): PlannerSyncService {
+        const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+        service.planCache = planCache;
+        return service;
+    }
+
+    it('serves the repeated request from the cache', async () => {
+        const service = createService(new PlanCache());
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        const handler = new RecordingResponseHandler();
+        const plans = await service.plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(server.requests).to.have.length(1);
+        expect(handler.output.join('')).to.contain('Plans served from cache');
+        expect(handler.plans).to.deep.equal(plans);
+        expect(plans[0].steps[0].getFullActionName()).to.equal('a');
+        expect(plans[0].steps[0].getStartTime()).to.equal(1);
+        expect(plans[0].steps[0].getDuration()).to.equal(2);
+        expect(plans[0].makespan).to.equal(3);
+    });
+
+    it('serves the repeated asynchronous request without the plan format from the cache', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('STOPPED',
+            [ReferencePlanningServer.asyncPlan(JSON.stringify([{ name: 'a', time: 0, duration: 1 }]), 'JSON', 1, 1)]));
+        const service = new PlannerAsyncService(server.url + '/request', {} as AsyncServiceConfiguration, providerConfiguration);
+        service.planCache = new PlanCache();
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(plans).to.have.length(1);
+        expect(server.requests).to.have.length(1);
+    });
+
+    it('ignores the comments and whitespace', () => {
+        const key = PlanCache.createKey(domainText, problemText, 'http://localhost/solve', { b: 1, a: 2 });
+
+        expect(PlanCache.createKey(domainText.replace(/ \(/g, '\n  ( ') + ' ; comment', problemText.toUpperCase(), 'http://localhost/solve', { a: 2, b: 1 }))
+            .to.equal(key);
+        expect(PlanCache.createKey(domainText, problemText, 'http://localhost/solve', { a: 2, b: 3 })).to.not.equal(key);
+    });
+
+    it('expires and invalidates the entries', async () => {
+        const planCache = new PlanCache({ maxAge: 60 });
+        const service = createService(planCache);
+        const key = service.createPlanCacheKey(domain.getText(), problem.getText())!;
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        expect(await planCache.get(key)).to.not.equal(undefined);
+        await planCache.invalidate(key);
+        expect(await planCache.get(key)).to.equal(undefined);
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        (await planCache.get(key))!.createdAt -= 61_000;
+        expect(await planCache.get(key)).to.equal(undefined);
+        expect(server.requests).to.have.length(2);
+    });
+
+    it('persists the plans in the directory', async () => {
+        const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pddl-plan-cache-'));
+        try {
+            await createService(new PlanCache({ directory })).plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+            const planCache = new PlanCache({ directory });
+            const plans = await createService(planCache).plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect(server.requests).to.have.length(1);
+            expect(plans).to.have.length(1);
+
+            await planCache.invalidate();
+            expect(await fs.promises.readdir(directory)).to.deep.equal([]);
+        } finally {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
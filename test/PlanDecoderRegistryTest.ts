@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { DomainInfo, PlanStep, ProblemInfo } from 'pddl-workspace';
+import { PlanDecoderRegistry, PlannerAsyncService, ReferencePlanningServer, UnsupportedPlanFormatError } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("PlanDecoderRegistry", () => {
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    describe("#sniff()", () => {
+        const registry = PlanDecoderRegistry.createDefault();
+
+        it('recognizes the built-in formats', () => {
+            expect(registry.sniff('0.001: (a) [1.000]\n')?.format).to.equal('PDDL');
+            expect(registry.sniff('<?xml version="1.0"?><plan><actions/></plan>')?.format).to.equal('xplan');
+            expect(registry.sniff('[{"name": "(a)", "time": 0}]')?.format).to.equal('JSON');
+            expect(registry.sniff([{ name: '(a)' }])?.format).to.equal('JSON');
+            expect(registry.sniff([{ name: '(a)', action: '(:action a :parameters () ...)' }])?.format).to.equal('solver.planning.domains');
+            expect(registry.sniff({ steps: [] })).to.be.undefined;
+        });
+    });
+
+    describe("#decode()", () => {
+        it('decodes the IPC plan', async () => {
+            const planParser = createPlanParser(domain, problem);
+
+            await PlanDecoderRegistry.createDefault().decode('0.001: (a) [1.000]\n1.002: (a) [1.000]\n', planParser);
+
+            expect(planParser.getPlans()[0].steps.map(step => step.getStartTime())).to.deep.equal([0.001, 1.002]);
+        });
+
+        it('rejects unknown format', async () => {
+            try {
+                await PlanDecoderRegistry.createDefault().decode('a;b', createPlanParser(domain, problem), 'CSV');
+                expect.fail('should have failed');
+            } catch (err: unknown) {
+                expect(err).to.be.instanceOf(UnsupportedPlanFormatError);
+                expect((err as UnsupportedPlanFormatError).format).to.equal('CSV');
+            }
+        });
+    });
+
+    it('decodes custom format returned by the service', async () => {
+        const server = new ReferencePlanningServer().onRequest({
+            body: { status: { status: 'STOPPED' }, output: '', plans: [{ ...ReferencePlanningServer.asyncPlan('', 'JSON'), format: 'CSV', content: '0;a;2\n' }] }
+        });
+        await server.start();
+        try {
+            const service = new PlannerAsyncService(server.url + '/request', { planFormat: 'CSV' }, providerConfiguration);
+            service.planDecoders = PlanDecoderRegistry.createDefault().register({
+                format: 'CSV',
+                decode: (content, planParser) => {
+                    (content as string).trim().split('\n').map(line => line.split(';')).forEach(([time, action, duration], index) =>
+                        planParser.appendStep(new PlanStep(parseFloat(time), action, true, parseFloat(duration), index)));
+                    planParser.onPlanFinished();
+                }
+            });
+
+            const plans = await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+            expect(plans).to.have.length(1);
+            expect(plans[0].steps[0].getFullActionName()).to.equal('a');
+            expect(plans[0].makespan).to.equal(2);
+        } finally {
+            await server.stop();
+        }
+    });
+});
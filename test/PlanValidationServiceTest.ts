@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { PlanningServiceError, PlanValidationService, ReferencePlanningServer } from './src';
+import { createPlanParser, parseDomainAndProblem } from './testUtils';
+
+describe("PlanValidationService", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    it('validates the plan object', async () => {
+        server.onValidate(ReferencePlanningServer.validationResult(true, { metric: 1 }));
+        const planParser = createPlanParser(domain, problem);
+        planParser.appendBuffer('0.001: (a) [1.000]\n');
+        planParser.onPlanFinished();
+
+        const result = await new PlanValidationService(server.url + '/validate').validate(domain, problem, planParser.getPlans()[0]);
+
+        expect(result).to.deep.include({ valid: true, metric: 1, unsatisfiedGoals: [], unsatisfiedPreconditions: [] });
+        expect(server.requests[0].body).to.deep.equal({ domain: domain.getText(), problem: problem.getText(), plan: '0.00100: (a) [1.00000]' });
+    });
+
+    it('reports the failing step of the plan text', async () => {
+        server.onValidate(ReferencePlanningServer.validationResult(false, {
+            failingStep: 1, unsatisfiedPreconditions: [{ stepIndex: 1, action: '(b)', condition: '(p)' }, '(q)'], unsatisfiedGoals: ['(r)'],
+        }));
+
+        const result = await new PlanValidationService(server.url + '/validate').validate(domain, problem, '(a)\n(b)\n');
+
+        expect(result.valid).to.be.false;
+        expect(result.failingStepIndex).to.equal(1);
+        expect(result.unsatisfiedPreconditions).to.deep.equal([{ stepIndex: 1, action: '(b)', condition: '(p)' }, { condition: '(q)' }]);
+        expect(result.unsatisfiedGoals).to.deep.equal(['(r)']);
+    });
+
+    it('rejects response without the validity', async () => {
+        server.onValidate({ body: { error: 'Domain does not parse.' } });
+
+        try {
+            await new PlanValidationService(server.url + '/validate').validate(domain, problem, '(a)');
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningServiceError);
+            expect((err as Error).message).to.equal('Domain does not parse.');
+        }
+    });
+});
@@ -0,0 +1,204 @@
+import { expect } from 'chai';
+import { DomainInfo, planner, ProblemInfo } from 'pddl-workspace';
+import {
+    AsyncServiceConfiguration, InvalidDurationError, PlannerAsyncService, PlannerFailedError, PlanningCancelledError, PlanningLifecycleEvent, PlanningTimeoutError, ReferencePlanningServer,
+    SearchDebuggerCallback, SearchDebuggerEvent
+} from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+const jsonPlan = ReferencePlanningServer.asyncPlan(JSON.stringify([{ name: 'a', time: 0, duration: 1 }]), 'JSON', 1, 1);
+const tasksPlan = ReferencePlanningServer.asyncPlan('0: (a) [1]', 'tasks', 1, 1);
+
+describe("PlannerAsyncService", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    function createService(configuration: Partial<AsyncServiceConfiguration> = {}): PlannerAsyncService {
+        return new PlannerAsyncService(server.url + '/request',
+            Object.assign({ planFormat: 'JSON', pollingInterval: 10 }, configuration), providerConfiguration);
+    }
+
+    it('returns plans of the stopped planner', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan, tasksPlan], 'done'));
+        const handler = new RecordingResponseHandler();
+
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(2);
+        expect(handler.plans).to.have.length(2);
+        expect(server.requests[0].url).to.equal('/request?async=false');
+    });
+
+    it('accepts the stopped planner response without plans', async () => {
+        server.onRequest({ body: { status: { status: 'STOPPED' }, output: 'nothing found' } });
+        const handler = new RecordingResponseHandler();
+
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.be.empty;
+        expect(handler.output.join('')).to.contain('nothing found');
+    });
+
+    it('polls the asynchronous job and streams improving plans', async () => {
+        server.onRequest(
+            ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN', [], 'parsing\n'),
+            ReferencePlanningServer.requestStatus('SEARCHING_BETTER_PLAN', [jsonPlan], 'parsing\nplan 1\n'),
+            ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan, tasksPlan], 'parsing\nplan 1\nplan 2\n'),
+        );
+        const handler = new RecordingResponseHandler();
+
+        const plans = await createService({ asyncMode: true }).plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(2);
+        expect(handler.plans).to.have.length(2);
+        expect(handler.output.join('')).to.contain('parsing\nplan 1\nplan 2\n');
+        expect(server.requests.map(r => r.method + ' ' + r.url)).to.deep.equal(['POST /request?async=true', 'GET /request/1', 'GET /request/1']);
+    });
+
+    it('stops polling the hung job after the timeout', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN'));
+
+        try {
+            await createService({ asyncMode: true, timeout: 0.1 }).plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have timed out');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningTimeoutError);
+            expect((err as PlanningTimeoutError).lastStatus).to.equal('SEARCHING_INITIAL_PLAN');
+            expect(server.requests.length).to.be.greaterThan(1);
+        }
+    });
+
+    it('reports the planning lifecycle events', async () => {
+        server.onRequest(
+            ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN', [], 'parsing\n'),
+            ReferencePlanningServer.requestStatus('SEARCHING_BETTER_PLAN', [jsonPlan], 'parsing\nplan 1\n'),
+            ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan], 'parsing\nplan 1\n'),
+        );
+        const service = createService({ asyncMode: true });
+        const events: PlanningLifecycleEvent[] = [];
+        service.addLifecycleListener(event => events.push(event));
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(events.map(event => event.type + ('status' in event ? ' ' + event.status : ''))).to.deep.equal([
+            'output', 'requestBuilt', 'requestSent', 'output', 'accepted', 'polled SEARCHING_BETTER_PLAN', 'output', 'planReceived',
+            'polled STOPPED', 'completed']);
+        expect(events.find(event => event.type === 'accepted')).to.include({ jobUrl: server.url + '/request/1' });
+        const completed = events[events.length - 1];
+        expect(completed.type === 'completed' && completed.plans).to.have.length(1);
+        expect(completed.elapsed).to.be.at.least(events[0].elapsed);
+    });
+
+    it('sends the ISO 8601 duration timeout in seconds', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan], 'done'));
+        const service = createService({ timeout: 'PT1M30S', planTimeUnit: 'PT15M' });
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(service.getTimeout()).to.equal(90);
+        expect(server.requests[0].body).to.have.nested.property('configuration.timeout', 90);
+    });
+
+    describe('#toPlanTimeScale()', () => {
+        it('converts the unit names and ISO 8601 durations', () => {
+            expect(PlannerAsyncService.toPlanTimeScale('MINUTE')).to.equal(60);
+            expect(PlannerAsyncService.toPlanTimeScale('PT15M')).to.equal(15 * 60);
+            expect(PlannerAsyncService.toPlanTimeScale('P1D')).to.equal(24 * 60 * 60);
+        });
+
+        it('rejects unknown units', () => {
+            expect(() => PlannerAsyncService.toPlanTimeScale('FORTNIGHT')).to.throw(InvalidDurationError, 'Unknown plan time unit: FORTNIGHT');
+            expect(() => PlannerAsyncService.toPlanTimeScale('PT0S')).to.throw(InvalidDurationError);
+        });
+    });
+
+    it('rejects when the planner fails', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('FAILED', [], '', 'Planner crashed'));
+        const service = createService();
+        const events: PlanningLifecycleEvent[] = [];
+        service.addLifecycleListener(event => events.push(event));
+
+        try {
+            await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlannerFailedError);
+            expect(events[events.length - 1]).to.include({ type: 'failed', error: err, cancelled: false });
+            expect((err as PlannerFailedError).message).to.equal('Planner crashed');
+            expect((err as PlannerFailedError).serviceStatus).to.equal('FAILED');
+        }
+    });
+
+    it('deletes the asynchronous job when cancelled', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN'));
+        const service = createService({ asyncMode: true });
+
+        const planning = service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        setTimeout(() => service.stop(), 50);
+
+        try {
+            await planning;
+            expect.fail('should have been cancelled');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningCancelledError);
+            expect(server.deletedJobs).to.deep.equal(['1']);
+        }
+    });
+
+    it('receives the search debugger callbacks until the planning ends', async () => {
+        server.onRequest(
+            ReferencePlanningServer.requestStatus('SEARCHING_INITIAL_PLAN', [], 'searching\n'),
+            { ...ReferencePlanningServer.requestStatus('STOPPED', [jsonPlan]), delay: 200 },
+        );
+        const service = new PlannerAsyncService(server.url + '/request',
+            { planFormat: 'JSON', asyncMode: true, pollingInterval: 10, searchDebuggerEnabled: true },
+            { configuration: { ...providerConfiguration.configuration, searchDebuggerSupport: planner.SearchDebuggerSupportType.HttpCallback } });
+        const events: SearchDebuggerEvent[] = [];
+        service.searchDebuggerListener = event => events.push(event);
+
+        let callbacks: SearchDebuggerCallback[] = [];
+        const responses: number[] = [];
+        const handler = new RecordingResponseHandler();
+        handler.handleOutput = (outputText: string): void => {
+            if (outputText !== 'searching\n') { return; }
+            // the planner reports the search progress while the job runs
+            callbacks = (server.requests[0].body as { callbacks: SearchDebuggerCallback[] }).callbacks;
+            const [states, plan] = callbacks;
+            const post = (url: string, token: string, payload: unknown): Promise<void> =>
+                fetch(url, { method: 'POST', headers: { Authorization: 'Bearer ' + token }, body: JSON.stringify(payload) })
+                    .then(response => { responses.push(response.status); });
+            void post(states.url, states.token, [{ id: 1, g: 0, h: 2 }, { id: 2, parentId: 1, actionName: 'a', g: 1, h: 1 }])
+                .then(() => post(plan.url, plan.token, jsonPlan))
+                .then(() => post(states.url, 'forged', { id: 3 }));
+        };
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(callbacks.map(c => c.type)).to.deep.equal(['STATES', 'PLAN']);
+        expect(callbacks[0].token).to.have.length.greaterThan(0);
+        expect(callbacks[0].url).to.match(/^http:\/\/127\.0\.0\.1:\d+\/states$/);
+        expect(responses).to.deep.equal([200, 200, 401]);
+        expect(events.map(e => e.type)).to.deep.equal(['STATES', 'PLAN']);
+        expect(events[0].type === 'STATES' && events[0].states.map(s => s.parentId)).to.deep.equal([undefined, '1']);
+        try {
+            await fetch(callbacks[0].url, { method: 'POST', body: '{}' });
+            expect.fail('receiver should be stopped');
+        } catch (err: unknown) {
+            expect((err as Error).message).to.equal('fetch failed');
+        }
+    });
+});
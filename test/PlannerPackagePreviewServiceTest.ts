@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { PackagedPlan, PackagedServiceConfiguration, PackageManifest, PlannerPackagePreviewService, PlannerServiceFactory, PlanningTimeoutError, ReferencePlanningServer } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+const lamaManifest: PackageManifest = {
+    name: 'LAMA-first', package_name: 'lama-first', description: 'LAMA first plan', runnable: true, "install-size": '1M', dependencies: [],
+    endpoint: {
+        services: {
+            solve: {
+                args: [{ name: 'domain', type: 'file', description: 'domain' }, { name: 'problem', type: 'file', description: 'problem' }],
+                call: 'lama {domain} {problem}', return: { files: '*plan*', type: 'generic' }
+            }
+        }
+    },
+};
+
+describe("PlannerPackagePreviewService", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    function createService(timeout?: number, configuration: PackagedServiceConfiguration = {}): PlannerPackagePreviewService {
+        return new PlannerPackagePreviewService(server.url + '/package/lama-first/solve',
+            { timeout, polling: { initialInterval: 10 }, ...configuration }, providerConfiguration);
+    }
+
+    it('polls pending job until the plan is found', async () => {
+        server.addPackage(lamaManifest,
+            ReferencePlanningServer.packagePending(),
+            ReferencePlanningServer.packagePending(),
+            ReferencePlanningServer.packageResult({ plan: '(a)\n; cost = 1 (unit cost)\n' }));
+        const handler = new RecordingResponseHandler();
+
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(1);
+        expect(handler.plans).to.have.length(1);
+        expect(server.requests.map(r => r.method + ' ' + r.url)).to.deep.equal([
+            'POST /package/lama-first/solve', 'GET /check/1?external=True', 'GET /check/1?external=True', 'GET /check/1?external=True']);
+    });
+
+    it('times out with the last known status', async () => {
+        server.addPackage(lamaManifest, ReferencePlanningServer.packagePending());
+
+        try {
+            await createService(0.1).plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have timed out');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningTimeoutError);
+            expect((err as PlanningTimeoutError).lastStatus).to.equal('PENDING');
+        }
+    });
+
+    const topKOutput = {
+        'sas_plan.10': '(a)\n(a)\n(a)\n; cost = 3 (unit cost)\n',
+        'sas_plan.2': '(a)\n(a)\n; cost = 2 (unit cost)\n',
+        'sas_plan.1': '(a)\n; cost = 1 (unit cost)\n',
+    };
+
+    it('returns all plans of multi-plan services ordered by the output suffix', async () => {
+        server.addPackage(lamaManifest, ReferencePlanningServer.packageResult(topKOutput));
+        const handler = new RecordingResponseHandler();
+
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans.map(plan => (plan as PackagedPlan).outputKey)).to.deep.equal(['sas_plan.1', 'sas_plan.2', 'sas_plan.10']);
+        expect(plans.map(plan => plan.steps.length)).to.deep.equal([1, 2, 3]);
+        expect(handler.plans).to.deep.equal(plans);
+    });
+
+    it('selects plans of multi-plan services by cost and count', async () => {
+        server.addPackage(lamaManifest, ReferencePlanningServer.packageResult(topKOutput));
+        const handler = new RecordingResponseHandler();
+        const service = createService(undefined, { planSelection: { maxCost: 2.5, filter: (_plan, key) => key !== 'sas_plan.1', limit: 1 } });
+
+        const plans = await service.plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans.map(plan => (plan as PackagedPlan).outputKey)).to.deep.equal(['sas_plan.2']);
+        expect(handler.plans).to.deep.equal(plans);
+        expect(server.requests[0].body).to.not.have.property('planSelection');
+    });
+
+    it('is created for each runnable package service listed by the root', async () => {
+        server.addPackage(lamaManifest, ReferencePlanningServer.packagePending());
+        server.addPackage(Object.assign({}, lamaManifest, { package_name: 'not-runnable', runnable: false }), ReferencePlanningServer.packagePending());
+
+        const services = await new PlannerServiceFactory(providerConfiguration).createServices(server.url + '/package');
+
+        expect(services.map(s => s.url)).to.deep.equal([server.url + '/package/lama-first/solve']);
+        expect(services[0].service).to.be.instanceOf(PlannerPackagePreviewService);
+    });
+});
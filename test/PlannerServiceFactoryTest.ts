@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { URL } from 'url';
+import { PlannerServiceFactory, PlannerServiceKind, PlannerSyncService, PlannerAsyncService } from './src';
+
+describe("PlannerServiceFactory", () => {
+    describe("#detectKind()", () => {
+        it('detects the protocol from the url path', () => {
+            expect(PlannerServiceFactory.detectKind(new URL('http://solver.planning.domains/solve'))).to.equal(PlannerServiceKind.Sync);
+            expect(PlannerServiceFactory.detectKind(new URL('http://localhost:8080/request'))).to.equal(PlannerServiceKind.Async);
+            expect(PlannerServiceFactory.detectKind(new URL('https://paas.org:5001/package/lama-first/solve'))).to.equal(PlannerServiceKind.Package);
+            expect(PlannerServiceFactory.detectKind(new URL('https://paas.org:5001/package/'))).to.equal(PlannerServiceKind.PackageRoot);
+            expect(PlannerServiceFactory.detectKind(new URL('https://paas.org:5001/'))).to.be.undefined;
+        });
+    });
+
+    describe("#createServices()", () => {
+        const factory = new PlannerServiceFactory({ configuration: { kind: 'test', title: 'test', canConfigure: false } });
+
+        it('creates the sync client for /solve', async () => {
+            const services = await factory.createServices('http://solver.planning.domains/solve');
+            expect(services).to.have.length(1);
+            expect(services[0].service).to.be.instanceOf(PlannerSyncService);
+        });
+
+        it('creates the async client for /request', async () => {
+            const services = await factory.createServices('http://localhost:8080/request');
+            expect(services[0].service).to.be.instanceOf(PlannerAsyncService);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { HttpStatusError, InvalidDurationError, PlannerServiceKind, PlannerSyncService, ReferencePlanningServer } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("PlannerSyncService", () => {
+    let server: ReferencePlanningServer;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    function createService(): PlannerSyncService {
+        return new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+    }
+
+    it('returns the plan', async () => {
+        server.onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }], 'planner output'));
+
+        const handler = new RecordingResponseHandler();
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(1);
+        expect(handler.plans).to.have.length(1);
+        expect(handler.plans[0].steps[0].getFullActionName()).to.equal('a');
+        expect(server.requests[0].body).to.deep.equal({ domain: domain.getText(), problem: problem.getText() });
+    });
+
+    it('retries when the service is overloaded', async () => {
+        server.onSolve({ statusCode: 503, headers: { 'Retry-After': '0' } }, ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+
+        const handler = new RecordingResponseHandler();
+        const plans = await createService().plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(1);
+        expect(server.requests).to.have.length(2);
+        expect(handler.output.join('')).to.contain('Planning service declined the request');
+    });
+
+    it('does not re-send the planning request without Retry-After', async () => {
+        server.onSolve(ReferencePlanningServer.httpError(503), ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+
+        try {
+            await createService().plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(HttpStatusError);
+            expect(server.requests).to.have.length(1);
+        }
+    });
+
+    it('does not retry, when opted out', async () => {
+        server.onSolve({ statusCode: 503, headers: { 'Retry-After': '0' } }, ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+        const service = createService();
+        service.httpOptions = { retry: false };
+
+        try {
+            await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect((err as HttpStatusError).statusCode).to.equal(503);
+            expect(server.requests).to.have.length(1);
+        }
+    });
+
+    it('rejects on HTTP error', async () => {
+        server.onSolve(ReferencePlanningServer.httpError(500));
+
+        try {
+            await createService().plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+            expect.fail('should have failed');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(HttpStatusError);
+            const error = err as HttpStatusError;
+            expect(error.statusCode).to.equal(500);
+            expect(error.responseBody).to.equal(JSON.stringify({ error: 'Status 500' }));
+            expect(error.serviceKind).to.equal(PlannerServiceKind.Sync);
+            expect(error.url).to.equal(server.url + '/solve');
+        }
+    });
+
+    it('reports the request sent once handed over to the transport', async () => {
+        const log: string[] = [];
+        const service = new PlannerSyncService('http://planner.invalid/solve', {}, providerConfiguration);
+        service.httpOptions = {
+            transport: {
+                send: async () => {
+                    log.push('send');
+                    const body = JSON.stringify(ReferencePlanningServer.solveResult([{ name: '(a)' }]).body);
+                    return { statusCode: 200, headers: { 'content-type': 'application/json' }, body };
+                }
+            }
+        };
+        service.addLifecycleListener(event => ['requestBuilt', 'requestSent'].includes(event.type) && log.push(event.type));
+
+        await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(log).to.deep.equal(['requestBuilt', 'send', 'requestSent']);
+    });
+
+    it('accepts the timeout as ISO 8601 duration', () => {
+        expect(createService().getTimeout()).to.equal(PlannerSyncService.DEFAULT_TIMEOUT);
+        expect(new PlannerSyncService(server.url + '/solve', { timeout: 'PT2M' }, providerConfiguration).getTimeout()).to.equal(120);
+        expect(() => new PlannerSyncService(server.url + '/solve', { timeout: '2 minutes' }, providerConfiguration).getTimeout())
+            .to.throw(InvalidDurationError);
+    });
+});
@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { PollingSchedule, PlanningTimeoutError } from './src';
+
+describe("PollingSchedule", () => {
+    describe("#wait()", () => {
+        it('grows the interval up to the maximum', async () => {
+            const schedule = new PollingSchedule({ initialInterval: 10, backoffFactor: 2, maxInterval: 40 }, 10);
+            const start = Date.now();
+            for (let i = 0; i < 4; i++) {
+                await schedule.wait('PENDING');
+            }
+            // 10 + 20 + 40 + 40 (timers may fire a millisecond early)
+            expect(Date.now() - start).to.be.at.least(105);
+            expect(schedule.pollCount).to.equal(4);
+        });
+
+        it('throws PlanningTimeoutError with the last known status after the deadline', async () => {
+            const schedule = new PollingSchedule({ initialInterval: 20 }, 0.01);
+            await schedule.wait('PENDING');
+
+            try {
+                await schedule.wait('PENDING');
+                expect.fail('should have timed out');
+            } catch (err: unknown) {
+                expect(err).to.be.instanceOf(PlanningTimeoutError);
+                expect((err as PlanningTimeoutError).lastStatus).to.equal('PENDING');
+            }
+        });
+    });
+});
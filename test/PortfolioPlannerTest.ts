@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { DomainInfo, Plan, ProblemInfo } from 'pddl-workspace';
+import { HttpResponse, HttpTransportRequest, PlannerAsyncService, PlannerSyncService, PortfolioMember, PortfolioPlanner, ReferencePlanningServer } from './src';
+import { parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+/** Creates sync service client responding after the `delay` with a plan of the given makespan. */
+function createService(url: string, delay: number, makespan: number): PlannerSyncService {
+    const service = new PlannerSyncService(url, {}, providerConfiguration);
+    const send = async (request: HttpTransportRequest): Promise<HttpResponse> => {
+        await new Promise((resolve, reject) => {
+            const timer = setTimeout(resolve, delay);
+            request.signal?.addEventListener('abort', () => { clearTimeout(timer); reject(new Error('aborted')); });
+        });
+        const body = JSON.stringify(ReferencePlanningServer.solveResult([{ name: '(a)', time: 0, duration: makespan }], 'searching\nsolved\n').body);
+        return { statusCode: 200, headers: { 'content-type': 'application/json' }, body };
+    };
+    service.httpOptions = { transport: { send } };
+    return service;
+}
+
+describe("PortfolioPlanner", () => {
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+    });
+
+    function createPortfolio(): PortfolioPlanner {
+        return new PortfolioPlanner([
+            { label: 'fast', service: createService('http://fast.invalid/solve', 10, 5) },
+            createService('http://slow.invalid/solve', 200, 2),
+        ]);
+    }
+
+    it('cancels the other services, when the first plan wins', async () => {
+        const handler = new RecordingResponseHandler();
+
+        const result = await createPortfolio().plan(domain, problem, handler, { strategy: 'firstPlanWins' });
+
+        expect(result.best?.member.label).to.equal('fast');
+        expect(result.plans).to.have.length(1);
+        expect(result.errors).to.be.empty;
+        expect(handler.plans).to.have.length(1);
+        expect(handler.output.join('')).to.contain('[fast] searching\n[fast] solved\n');
+        expect(handler.output.join('')).to.not.contain('[http://slow.invalid/solve] solved');
+    });
+
+    it('picks the best plan of the winner by metric', async () => {
+        const server = new ReferencePlanningServer().onRequest(ReferencePlanningServer.requestStatus('STOPPED', [
+            ReferencePlanningServer.asyncPlan(JSON.stringify([{ name: 'a', time: 0, duration: 1 }]), 'JSON', 1, 1),
+            ReferencePlanningServer.asyncPlan(JSON.stringify([{ name: 'a', time: 0, duration: 3 }]), 'JSON', 3, 3),
+        ]));
+        await server.start();
+        try {
+            const portfolio = new PortfolioPlanner([
+                { label: 'async', service: new PlannerAsyncService(server.url + '/request', { planFormat: 'JSON' }, providerConfiguration) },
+                createService('http://slow.invalid/solve', 200, 2),
+            ]);
+
+            const result = await portfolio.plan(domain, problem, new RecordingResponseHandler(), { strategy: 'firstPlanWins' });
+
+            expect(result.plans.map(found => found.plan.metric)).to.deep.equal([1, 3]);
+            expect(result.best?.plan.metric).to.equal(1);
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('picks the best metric and tags the plans by the service', async () => {
+        const tagged: [number, string][] = [];
+        const handler = Object.assign(new RecordingResponseHandler(), {
+            handlePortfolioPlan: (plan: Plan, member: PortfolioMember) => tagged.push([plan.metric, member.label]),
+        });
+
+        const result = await createPortfolio().plan(domain, problem, handler, { strategy: 'bestMetricWithinDeadline', deadline: 5 });
+
+        expect(tagged).to.deep.equal([[5, 'fast'], [2, 'http://slow.invalid/solve']]);
+        expect(result.best?.plan.metric).to.equal(2);
+        expect(handler.plans).to.be.empty;
+    });
+
+    it('keeps the plans found before the deadline', async () => {
+        const result = await createPortfolio().plan(domain, problem, new RecordingResponseHandler(), { strategy: 'bestMetricWithinDeadline', deadline: 0.1 });
+
+        expect(result.best?.member.label).to.equal('fast');
+        expect(result.errors).to.be.empty;
+    });
+});
@@ -0,0 +1,41 @@
+import { expect } from 'chai';
+import { EndpointService, validateServiceArguments, createServiceArgumentsSchema } from './src';
+
+const topkService: EndpointService = {
+    args: [
+        { name: 'domain', type: 'file', description: 'domain file' },
+        { name: 'problem', type: 'file', description: 'problem file' },
+        { name: 'k', type: 'int', description: 'number of plans' },
+        { name: 'quality', type: 'int', description: 'relative quality bound', default: 1 },
+        {
+            name: 'search', type: 'categorical', description: 'search', default: 'astar',
+            choices: [{ display_value: 'A*', value: 'astar' }, { display_value: 'GBFS', value: 'gbfs' }]
+        },
+    ],
+    call: 'planner {domain} {problem} {k}',
+    return: { files: '*plan*', type: 'generic' },
+};
+
+describe("ServiceArguments", () => {
+    describe("#validateServiceArguments()", () => {
+        it('populates defaults and converts numeric strings', () => {
+            const validation = validateServiceArguments(topkService, { k: '5' });
+            expect(validation.problems).to.be.empty;
+            expect(validation.args).to.deep.equal({ k: 5, quality: 1, search: 'astar' });
+        });
+
+        it('reports missing mandatory and invalid arguments', () => {
+            const validation = validateServiceArguments(topkService, { quality: 1.5, search: 'dfs' });
+            expect(validation.problems.map(p => p.argument)).to.deep.equal(['k', 'quality', 'search']);
+        });
+    });
+
+    describe("#createServiceArgumentsSchema()", () => {
+        it('describes the arguments without domain and problem', () => {
+            const schema = createServiceArgumentsSchema(topkService, 'topk');
+            expect(Object.keys(schema.properties ?? {})).to.deep.equal(['k', 'quality', 'search']);
+            expect(schema.required).to.deep.equal(['k']);
+            expect(schema.properties?.['search'].oneOf).to.have.length(2);
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { ApiKeyAuthentication, OAuth2ClientCredentialsAuthentication, PackageManifest, PlannerPackagePreviewService, PlannerSyncService, ReferencePlanningServer, TrafficCassette } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+const manifest: PackageManifest = {
+    name: 'Planner', package_name: 'planner', description: undefined, runnable: true, "install-size": '1M', dependencies: [],
+    endpoint: { services: { solve: { args: [], call: 'planner', return: { files: '*plan*', type: 'generic' } } } },
+};
+
+describe("TrafficCassette", () => {
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+    let cassettePath: string;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+        cassettePath = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cassette-')), 'session.json');
+    });
+
+    after(async () => {
+        await fs.promises.rm(path.dirname(cassettePath), { recursive: true, force: true });
+    });
+
+    it('records the session and replays it offline', async () => {
+        const server = new ReferencePlanningServer()
+            .addPackage(manifest, ReferencePlanningServer.packagePending(), ReferencePlanningServer.packageResult({ plan: '(a)\n' }));
+        const url = await server.start() + '/package/planner/solve';
+
+        const recordingService = new PlannerPackagePreviewService(url, { polling: { initialInterval: 1 } }, providerConfiguration);
+        recordingService.httpOptions = { cassette: TrafficCassette.record(cassettePath) };
+        await recordingService.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        await server.stop();
+
+        const cassette = await TrafficCassette.replay(cassettePath);
+        expect(cassette.getExchanges().map(e => e.request.method)).to.deep.equal(['POST', 'GET', 'GET']);
+
+        const replayingService = new PlannerPackagePreviewService(url, { polling: { initialInterval: 1 } }, providerConfiguration);
+        replayingService.httpOptions = { cassette };
+        const handler = new RecordingResponseHandler();
+        const plans = await replayingService.plan(domain, problem, createPlanParser(domain, problem), handler);
+
+        expect(plans).to.have.length(1);
+        expect(handler.plans).to.have.length(1);
+    });
+
+    it('redacts the secrets of the token exchange', async () => {
+        const server = new ReferencePlanningServer()
+            .onToken(ReferencePlanningServer.token('access-token-value'))
+            .onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+        await server.start();
+        const tokenCassettePath = path.join(path.dirname(cassettePath), 'token.json');
+        try {
+            const cassette = TrafficCassette.record(tokenCassettePath);
+            const service = new PlannerSyncService(server.url + '/solve', {}, providerConfiguration);
+            service.httpOptions = {
+                cassette,
+                authentication: new OAuth2ClientCredentialsAuthentication({
+                    tokenUrl: server.url + '/token', clientId: 'client', clientSecret: 'client-secret-value', credentialsInBody: true,
+                    httpOptions: { cassette },
+                }),
+            };
+            await service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        } finally {
+            await server.stop();
+        }
+
+        const content = await fs.promises.readFile(tokenCassettePath, { encoding: 'utf8' });
+        expect(content).to.not.contain('client-secret-value');
+        expect(content).to.not.contain('access-token-value');
+        const [tokenExchange] = (await TrafficCassette.replay(tokenCassettePath)).getExchanges();
+        expect(tokenExchange.request.body).to.equal('grant_type=client_credentials&client_id=client&client_secret=%3Credacted%3E');
+        expect(JSON.parse(tokenExchange.response.body)).to.include({ access_token: '<redacted>', expires_in: 3600 });
+    });
+
+    it('replays the session authenticated by the API key query parameter', async () => {
+        const server = new ReferencePlanningServer()
+            .onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }]));
+        const url = await server.start() + '/solve';
+        const apiKeyCassettePath = path.join(path.dirname(cassettePath), 'api-key.json');
+        const authentication = new ApiKeyAuthentication('api-key-value', { queryParameter: 'api_key' });
+        try {
+            const recordingService = new PlannerSyncService(url, {}, providerConfiguration);
+            recordingService.httpOptions = { cassette: TrafficCassette.record(apiKeyCassettePath), authentication };
+            await recordingService.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        } finally {
+            await server.stop();
+        }
+
+        const cassette = await TrafficCassette.replay(apiKeyCassettePath);
+        expect(cassette.getExchanges()[0].request.url).to.equal(url + '?api_key=%3Credacted%3E');
+
+        const replayingService = new PlannerSyncService(url, {}, providerConfiguration);
+        replayingService.httpOptions = { cassette, authentication };
+        const plans = await replayingService.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+
+        expect(plans).to.have.length(1);
+    });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { PlannerSyncService, PlanningCancelledError } from './src';
+import { createPlanParser, parseDomainAndProblem, providerConfiguration, RecordingResponseHandler } from './testUtils';
+
+describe("PlannerService cancellation", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    before(async () => {
+        [domain, problem] = await parseDomainAndProblem();
+        // the server never answers
+        server = http.createServer(() => { /* keep the request hanging */ });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    function createService(): PlannerSyncService {
+        return new PlannerSyncService(baseUrl + '/solve', {}, providerConfiguration);
+    }
+
+    it('rejects with PlanningCancelledError when the signal aborts', async () => {
+        const abortController = new AbortController();
+        const planning = createService().plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler(), { signal: abortController.signal });
+        setTimeout(() => abortController.abort(), 50);
+
+        try {
+            await planning;
+            expect.fail('planning should have been cancelled');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningCancelledError);
+        }
+    });
+
+    it('rejects with PlanningCancelledError when stopped', async () => {
+        const service = createService();
+        const planning = service.plan(domain, problem, createPlanParser(domain, problem), new RecordingResponseHandler());
+        setTimeout(() => service.stop(), 50);
+
+        try {
+            await planning;
+            expect.fail('planning should have been cancelled');
+        } catch (err: unknown) {
+            expect(err).to.be.instanceOf(PlanningCancelledError);
+            expect(service.planningProcessKilled).to.equal(true);
+        }
+    });
+});
@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExitCode, main, CliConsole } from '../src/cli';
+import { PackageManifest, ReferencePlanningServer } from './src';
+import { domainText, problemText } from './testUtils';
+
+const topKManifest: PackageManifest = {
+    name: 'Top-k', package_name: 'topk', description: 'Top k plans', runnable: true, "install-size": '1M', dependencies: [],
+    endpoint: {
+        services: {
+            solve: {
+                args: [{ name: 'domain', type: 'file', description: 'domain' }, { name: 'problem', type: 'file', description: 'problem' },
+                { name: 'k', type: 'int', description: 'number of plans', default: 2 }],
+                call: 'topk {domain} {problem} {k}', return: { files: '*plan*', type: 'generic' }
+            }
+        }
+    },
+};
+
+/** Collects the console output. */
+class RecordingConsole implements CliConsole {
+    stdout = '';
+    stderr = '';
+
+    out(text: string): void {
+        this.stdout += text;
+    }
+
+    err(text: string): void {
+        this.stderr += text;
+    }
+}
+
+describe("cli", () => {
+    let server: ReferencePlanningServer;
+    let directory: string;
+    let domainPath: string;
+    let problemPath: string;
+    let outDir: string;
+
+    beforeEach(async () => {
+        server = new ReferencePlanningServer();
+        await server.start();
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pddl-cli-'));
+        domainPath = path.join(directory, 'domain.pddl');
+        problemPath = path.join(directory, 'problem.pddl');
+        outDir = path.join(directory, 'plans');
+        await fs.promises.writeFile(domainPath, domainText);
+        await fs.promises.writeFile(problemPath, problemText);
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('writes the plan found by the sync service', async () => {
+        server.onSolve(ReferencePlanningServer.solveResult([{ name: '(a)' }], 'planner output'));
+        const io = new RecordingConsole();
+
+        const exitCode = await main([domainPath, problemPath, '--url', server.url + '/solve', '--out-dir', outDir], io);
+
+        expect(exitCode).to.equal(ExitCode.Success);
+        expect(io.stdout).to.contain('planner output');
+        const plan = await fs.promises.readFile(path.join(outDir, 'p1.1.plan'), { encoding: 'utf8' });
+        expect(plan).to.match(/^0\.00100: \(a\)/);
+    });
+
+    it('passes the arguments to the package service and writes JSON plans', async () => {
+        server.addPackage(topKManifest, ReferencePlanningServer.packageResult({ 'sas_plan.1': '(a)\n', 'sas_plan.2': '(a)\n(a)\n' }));
+        const io = new RecordingConsole();
+
+        const exitCode = await main([domainPath, problemPath, '--url', server.url + '/package/topk/solve', '--package',
+            '--arg', 'k=2', '--plan-format', 'json', '--out-dir', outDir], io);
+
+        expect(exitCode).to.equal(ExitCode.Success);
+        const solveRequest = server.requests.find(request => request.method === 'POST');
+        expect(solveRequest?.url).to.equal('/package/topk/solve');
+        expect(solveRequest?.body).to.include({ k: 2 });
+        const plan2 = JSON.parse(await fs.promises.readFile(path.join(outDir, 'p1.2.plan.json'), { encoding: 'utf8' }));
+        expect(plan2.map((step: { name: string }) => step.name)).to.deep.equal(['(a)', '(a)']);
+    });
+
+    it('detects the only service of the package root', async () => {
+        server.addPackage(topKManifest, ReferencePlanningServer.packageResult({ 'sas_plan.1': '(a)\n' }));
+        const io = new RecordingConsole();
+
+        const exitCode = await main([domainPath, problemPath, '--url', server.url + '/package', '--arg', 'k=3', '--out-dir', outDir], io);
+
+        expect(exitCode).to.equal(ExitCode.Success);
+        const solveRequest = server.requests.find(request => request.method === 'POST');
+        expect(solveRequest?.url).to.equal('/package/topk/solve');
+        expect(solveRequest?.body).to.include({ k: 3 });
+    });
+
+    it('converts the boolean and numeric async service configuration', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('STOPPED', [], 'nothing found'));
+
+        const exitCode = await main([domainPath, problemPath, '--url', server.url + '/request', '--arg', 'asyncMode=false',
+            '--arg', 'planTimeUnit=MINUTE', '--arg', 'timeout=5', '--out-dir', outDir], new RecordingConsole());
+
+        expect(exitCode).to.equal(ExitCode.NoPlan);
+        expect(server.requests[0].url).to.equal('/request?async=false');
+        expect((server.requests[0].body as { configuration: unknown }).configuration)
+            .to.include({ asyncMode: false, planTimeUnit: 'MINUTE', timeout: 5 });
+    });
+
+    it('lists the packages', async () => {
+        server.addPackage(topKManifest, ReferencePlanningServer.packagePending());
+        const io = new RecordingConsole();
+
+        const exitCode = await main(['--list-packages', '--url', server.url + '/package'], io);
+
+        expect(exitCode).to.equal(ExitCode.Success);
+        expect(io.stdout).to.equal('topk - Top-k: Top k plans\n    solve: domain, problem, k=2\n');
+    });
+
+    it('distinguishes no plan, error, timeout and invalid arguments', async () => {
+        server.onRequest(ReferencePlanningServer.requestStatus('STOPPED', [], 'nothing found'));
+        server.onSolve(ReferencePlanningServer.httpError(500));
+        server.addPackage(topKManifest, ReferencePlanningServer.packagePending());
+        const run = (...args: string[]): Promise<ExitCode> => main([domainPath, problemPath, '--out-dir', outDir, ...args], new RecordingConsole());
+
+        expect(await run('--url', server.url + '/request')).to.equal(ExitCode.NoPlan);
+        expect(await run('--url', server.url + '/solve')).to.equal(ExitCode.Error);
+        expect(await run('--url', server.url + '/package/topk/solve', '--timeout', '0.1')).to.equal(ExitCode.Timeout);
+        expect(await run('--url', server.url + '/solve', '--sync', '--async')).to.equal(ExitCode.InvalidArguments);
+        expect(await main(['--url', server.url + '/solve'], new RecordingConsole())).to.equal(ExitCode.InvalidArguments);
+    });
+});
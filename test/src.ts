@@ -1 +1,3 @@
-export * from '../src/index';
\ No newline at end of file
+export * from '../src/index';
+export * from '../src/testing';
+export * from '../src/node';
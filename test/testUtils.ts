@@ -0,0 +1,36 @@
+import { DomainInfo, ProblemInfo, Plan, parser, planner } from 'pddl-workspace';
+
+export const domainText = `(define (domain d) (:requirements :strips) (:predicates (p)) (:action a :parameters () :precondition () :effect (p)))`;
+export const problemText = `(define (problem p1) (:domain d) (:init ) (:goal (p)))`;
+
+export const providerConfiguration: planner.ProviderConfiguration = {
+    configuration: { kind: 'test', title: 'test', canConfigure: false }
+};
+
+export async function parseDomainAndProblem(): Promise<[DomainInfo, ProblemInfo]> {
+    const domain = parser.PddlDomainParser.parseText(domainText)!;
+    const problem = (await parser.PddlProblemParser.parseText(problemText))!;
+    return [domain, problem];
+}
+
+export function createPlanParser(domain: DomainInfo, problem: ProblemInfo): parser.PddlPlannerOutputParser {
+    return new parser.PddlPlannerOutputParser(domain, problem, { epsilon: 1e-3 });
+}
+
+/** Collects the output and plans for assertions. */
+export class RecordingResponseHandler implements planner.PlannerResponseHandler {
+    readonly output: string[] = [];
+    readonly plans: Plan[] = [];
+
+    handleOutput(outputText: string): void {
+        this.output.push(outputText);
+    }
+
+    handlePlan(plan: Plan): void {
+        this.plans.push(plan);
+    }
+
+    providePlannerOptions(): string[] {
+        return [];
+    }
+}